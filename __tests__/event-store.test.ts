@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { createEventStore, getStreamIdFromEventId } from '../event-store.js';
+
+const notification = (n: number): JSONRPCMessage => ({
+  jsonrpc: '2.0',
+  method: 'notifications/progress',
+  params: { progressToken: 1, progress: n },
+});
+
+async function replay(store: ReturnType<typeof createEventStore>, lastEventId: string) {
+  const sent: Array<[string, JSONRPCMessage]> = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (eventId, message) => { sent.push([eventId, message]); },
+  });
+  return { streamId, sent };
+}
+
+describe('Event Store', () => {
+  it('extracts the stream id from event ids', () => {
+    expect(getStreamIdFromEventId('a1b2-c3_12')).toBe('a1b2-c3');
+    expect(getStreamIdFromEventId('no-separator')).toBeNull();
+  });
+
+  it('replays the events of the same stream after the given id', async () => {
+    const store = createEventStore();
+    const first = await store.storeEvent('stream-a', notification(1));
+    await store.storeEvent('stream-b', notification(2));
+    const second = await store.storeEvent('stream-a', notification(3));
+    const third = await store.storeEvent('stream-a', notification(4));
+
+    const { streamId, sent } = await replay(store, first);
+
+    expect(streamId).toBe('stream-a');
+    expect(sent).toEqual([[second, notification(3)], [third, notification(4)]]);
+  });
+
+  it('replays nothing when the client is up to date', async () => {
+    const store = createEventStore();
+    const last = await store.storeEvent('stream-a', notification(1));
+
+    const { streamId, sent } = await replay(store, last);
+
+    expect(streamId).toBe('stream-a');
+    expect(sent).toEqual([]);
+  });
+
+  it('drops the oldest events beyond the per-stream limit', async () => {
+    const store = createEventStore(2);
+    const first = await store.storeEvent('stream-a', notification(1));
+    const second = await store.storeEvent('stream-a', notification(2));
+    await store.storeEvent('stream-a', notification(3));
+
+    await expect(replay(store, first)).rejects.toThrow('Unknown or expired event id');
+    expect((await replay(store, second)).sent).toHaveLength(1);
+  });
+
+  it('drops the streams written to least recently beyond the size budget', async () => {
+    const eventBytes = JSON.stringify(notification(1)).length;
+    const store = createEventStore(100, eventBytes * 3);
+    const a = await store.storeEvent('stream-a', notification(1));
+    const b = await store.storeEvent('stream-b', notification(2));
+    await store.storeEvent('stream-b', notification(3));
+    await store.storeEvent('stream-a', notification(4));
+    const c = await store.storeEvent('stream-c', notification(5));
+
+    await expect(replay(store, b)).rejects.toThrow('Unknown or expired event id');
+    expect((await replay(store, a)).sent).toEqual([[expect.any(String), notification(4)]]);
+    expect((await replay(store, c)).sent).toEqual([]);
+  });
+
+  it('keeps the newest event even when it alone is over the budget', async () => {
+    const store = createEventStore(100, 10);
+    await store.storeEvent('stream-a', notification(1));
+    const last = await store.storeEvent('stream-b', notification(2));
+
+    expect((await replay(store, last)).streamId).toBe('stream-b');
+  });
+
+  it('rejects unknown event ids', async () => {
+    const store = createEventStore();
+    await expect(replay(store, 'missing_1')).rejects.toThrow('Unknown or expired event id');
+  });
+});
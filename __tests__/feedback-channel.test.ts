@@ -0,0 +1,86 @@
+import { describe, it, expect } from '@jest/globals';
+import * as path from 'path';
+import {
+  DEFAULT_CHANNEL,
+  channelFeedbackPath,
+  createFeedbackChannel,
+  isFeedbackFileName,
+  isFeedbackTarget,
+  isValidSessionName,
+} from '../feedback-channel.js';
+
+describe('Feedback Channels', () => {
+  describe('isValidSessionName', () => {
+    it('accepts letters, digits, dashes and underscores', () => {
+      expect(isValidSessionName('agent-1')).toBe(true);
+      expect(isValidSessionName('frontend_bot')).toBe(true);
+    });
+
+    it('rejects names that could escape the feedback file name', () => {
+      expect(isValidSessionName('')).toBe(false);
+      expect(isValidSessionName('../etc')).toBe(false);
+      expect(isValidSessionName('a/b')).toBe(false);
+      expect(isValidSessionName('a.b')).toBe(false);
+      expect(isValidSessionName('x'.repeat(65))).toBe(false);
+    });
+  });
+
+  describe('channelFeedbackPath', () => {
+    it('uses feedback.md for the default channel', () => {
+      expect(channelFeedbackPath('/ws', DEFAULT_CHANNEL)).toBe(path.join('/ws', 'feedback.md'));
+    });
+
+    it('uses feedback.<session>.md for named channels', () => {
+      expect(channelFeedbackPath('/ws', 'alice')).toBe(path.join('/ws', 'feedback.alice.md'));
+    });
+  });
+
+  describe('isFeedbackFileName', () => {
+    it('accepts feedback file names', () => {
+      expect(isFeedbackFileName('/ws/feedback.md')).toBe(true);
+      expect(isFeedbackFileName('/ws/docs/feedback.frontend.md')).toBe(true);
+      expect(isFeedbackFileName('/ws/feedback-review.MD')).toBe(true);
+    });
+
+    it('rejects other files and the state directory', () => {
+      expect(isFeedbackFileName('/ws/package.json')).toBe(false);
+      expect(isFeedbackFileName('/ws/README.md')).toBe(false);
+      expect(isFeedbackFileName('/ws/feedbackish.md')).toBe(false);
+      expect(isFeedbackFileName('/ws/feedback.md.bak')).toBe(false);
+      expect(isFeedbackFileName('/ws/.tasksync/feedback.md')).toBe(false);
+    });
+  });
+
+  describe('isFeedbackTarget', () => {
+    it('accepts feedback file names and the default feedback files of channels', () => {
+      const channel = { ...createFeedbackChannel('frontend', '/ws'), feedbackPath: '/ws/notes/review.md' };
+
+      expect(isFeedbackTarget('/ws/feedback.md', [])).toBe(true);
+      expect(isFeedbackTarget('/ws/notes/review.md', [channel])).toBe(true);
+    });
+
+    it('rejects files a client subscribed to or waited on', () => {
+      // resources/subscribe and get_feedback {path} start watching any allowed file
+      const channel = createFeedbackChannel(DEFAULT_CHANNEL, '/ws');
+      channel.lastFileHashByPath.set('/ws/package.json', 'hash');
+      channel.servers.set({} as never, new Set(['tasksync://feedback/package.json']));
+
+      expect(isFeedbackTarget('/ws/package.json', [channel])).toBe(false);
+      expect(isFeedbackTarget('/ws/src/index.ts', [channel])).toBe(false);
+    });
+  });
+
+  describe('createFeedbackChannel', () => {
+    it('creates independent state for each channel', () => {
+      const alice = createFeedbackChannel('alice', '/ws');
+      const bob = createFeedbackChannel('bob', '/ws');
+
+      alice.lastFileHashByPath.set('/ws/feedback.alice.md', 'hash');
+
+      expect(alice.feedbackPath).toBe(path.join('/ws', 'feedback.alice.md'));
+      expect(bob.lastFileHashByPath.size).toBe(0);
+      expect(alice.waitingForFileChange).not.toBe(bob.waitingForFileChange);
+      expect(alice.initialized).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseFeedback,
+  computeFeedbackDelta,
+  formatStatusSection,
+  formatQuestionSection,
+  findSelectedOption,
+  parseStatusPosts,
+  findTermination,
+  findImageReferences,
+  findNewImageReferences,
+} from '../feedback-format.js';
+
+describe('Feedback Format', () => {
+  describe('parseFeedback', () => {
+    it('treats plain content as a single instruction block', () => {
+      const parsed = parseFeedback('Please fix the header spacing');
+
+      expect(parsed.frontMatter).toEqual({});
+      expect(parsed.targets).toEqual([]);
+      expect(parsed.blocks).toHaveLength(1);
+      expect(parsed.blocks[0]).toMatchObject({ index: 0, kind: 'instruction', text: 'Please fix the header spacing', isNew: true });
+    });
+
+    it('parses front-matter scalars and lists', () => {
+      const content = [
+        '---',
+        'priority: high',
+        'status: "in-review"',
+        'targets: [src/app.ts, src/header.ts]',
+        'owners:',
+        '  - alice',
+        '  - bob',
+        '---',
+        'Rename the component',
+      ].join('\n');
+
+      const parsed = parseFeedback(content);
+
+      expect(parsed.priority).toBe('high');
+      expect(parsed.status).toBe('in-review');
+      expect(parsed.targets).toEqual(['src/app.ts', 'src/header.ts']);
+      expect(parsed.frontMatter.owners).toEqual(['alice', 'bob']);
+      expect(parsed.blocks.map(b => b.text)).toEqual(['Rename the component']);
+    });
+
+    it('accepts files as an alias for targets', () => {
+      const parsed = parseFeedback('---\nfiles: README.md\n---\nUpdate docs');
+      expect(parsed.targets).toEqual(['README.md']);
+    });
+
+    it('does not treat a leading separator with prose as front-matter', () => {
+      const parsed = parseFeedback('---\nFirst message here\n---\nSecond message');
+
+      expect(parsed.frontMatter).toEqual({});
+      expect(parsed.blocks.map(b => b.text)).toEqual(['First message here', 'Second message']);
+    });
+
+    it('splits message blocks and classifies comments and stop commands', () => {
+      const content = 'Add tests\n---\n<!-- note to self -->\n---\n\n---\nStop.';
+
+      const parsed = parseFeedback(content);
+
+      expect(parsed.blocks.map(b => b.kind)).toEqual(['instruction', 'comment', 'stop']);
+      expect(parsed.blocks.map(b => b.index)).toEqual([0, 1, 2]);
+    });
+
+    it('does not classify a sentence containing a keyword as a stop command', () => {
+      const parsed = parseFeedback("Don't stop until the build passes");
+      expect(parsed.blocks[0].kind).toBe('instruction');
+    });
+
+    it('honors custom termination keywords', () => {
+      const parsed = parseFeedback('ship it', new Set(), ['ship it']);
+      expect(parsed.blocks[0].kind).toBe('stop');
+    });
+
+    it('flags only blocks not previously delivered as new', () => {
+      const first = parseFeedback('Old instruction');
+      const previous = new Set(first.blocks.map(b => b.hash));
+
+      const second = parseFeedback('Old instruction\n---\nNew instruction', previous);
+
+      expect(second.blocks.map(b => b.isNew)).toEqual([false, true]);
+    });
+
+    it('hashes blocks independently of line endings', () => {
+      const unix = parseFeedback('line one\nline two');
+      const windows = parseFeedback('line one\r\nline two');
+      expect(windows.blocks[0].hash).toBe(unix.blocks[0].hash);
+    });
+  });
+
+  describe('findTermination', () => {
+    it('reports a new stop command as the latest user block', () => {
+      const parsed = parseFeedback('Fix the header\n---\nStop.' + formatStatusSection('Done', '2025-01-01T00:00:00.000Z'));
+
+      expect(findTermination(parsed.blocks)?.text).toBe('Stop.');
+    });
+
+    it('ignores a stop followed by new instructions', () => {
+      const parsed = parseFeedback('stop\n---\nActually, also fix the footer');
+
+      expect(findTermination(parsed.blocks)).toBeNull();
+    });
+
+    it('ignores a stop that was already delivered', () => {
+      const first = parseFeedback('Fix the header\n---\nend');
+      const again = parseFeedback('Fix the header\n---\nend', new Set(first.blocks.map(b => b.hash)));
+
+      expect(findTermination(again.blocks)).toBeNull();
+    });
+
+    it('does not treat sentences containing a keyword as a stop', () => {
+      expect(findTermination(parseFeedback('Stop using red for errors').blocks)).toBeNull();
+    });
+
+    it('uses the configured keywords', () => {
+      expect(findTermination(parseFeedback('ship it', new Set(), ['ship it']).blocks)?.text).toBe('ship it');
+      expect(findTermination(parseFeedback('stop', new Set(), ['ship it']).blocks)).toBeNull();
+    });
+  });
+
+  describe('findImageReferences', () => {
+    it('finds local markdown image paths in order, without duplicates', () => {
+      const content = 'The button is cut off: ![bug](./screenshots/bug.png)\n' +
+        'Compare with ![expected](<design/expected view.png> "Design") and ![again](./screenshots/bug.png)\n' +
+        '![encoded](shots/a%20b.png)';
+
+      expect(findImageReferences(content)).toEqual(['./screenshots/bug.png', 'design/expected view.png', 'shots/a b.png']);
+    });
+
+    it('skips URLs and plain links', () => {
+      const content = '![logo](https://example.com/logo.png) ![inline](data:image/png;base64,AAAA) [doc](./notes.png)';
+
+      expect(findImageReferences(content)).toEqual([]);
+      expect(findImageReferences('![win](C:\\shots\\bug.png)')).toEqual(['C:\\shots\\bug.png']);
+    });
+  });
+
+  describe('findNewImageReferences', () => {
+    it('does not attach an image again once its block was delivered', () => {
+      const first = parseFeedback('Button cut off ![bug](./shots/bug.png)\n');
+      expect(findNewImageReferences(first.blocks)).toEqual(['./shots/bug.png']);
+
+      const delivered = new Set(first.blocks.map(block => block.hash));
+      const second = parseFeedback('Button cut off ![bug](./shots/bug.png)\n---\nalso fix the footer ![footer](footer.png)\n', delivered);
+
+      expect(findNewImageReferences(second.blocks)).toEqual(['footer.png']);
+    });
+
+    it('skips images in agent status posts', () => {
+      const content = `Check this\n${formatStatusSection('Screenshot: ![now](now.png)', '2025-01-01T00:00:00.000Z')}`;
+
+      expect(findNewImageReferences(parseFeedback(content).blocks)).toEqual([]);
+    });
+  });
+
+  describe('formatStatusSection', () => {
+    it('produces a block parsed back as an agent status post', () => {
+      const content = 'Fix the header' + formatStatusSection('Header fixed, running tests', '2025-01-01T00:00:00.000Z');
+
+      const parsed = parseFeedback(content);
+
+      expect(parsed.blocks.map(b => b.kind)).toEqual(['instruction', 'status']);
+      expect(parsed.blocks[1].text).toContain('Header fixed, running tests');
+      expect(parsed.blocks[1].text).toContain('2025-01-01T00:00:00.000Z');
+    });
+
+    it('does not turn an empty file into front-matter', () => {
+      const parsed = parseFeedback(formatStatusSection('Started', '2025-01-01T00:00:00.000Z'));
+
+      expect(parsed.frontMatter).toEqual({});
+      expect(parsed.blocks.map(b => b.kind)).toEqual(['status']);
+    });
+  });
+
+  describe('parseStatusPosts', () => {
+    it('returns the timestamp and message of each status post', () => {
+      const content = 'Fix the header' +
+        formatStatusSection('Header fixed', '2025-01-01T00:00:00.000Z') +
+        formatStatusSection('Tests pass\n\n- 12 suites', '2025-01-01T00:05:00.000Z');
+
+      expect(parseStatusPosts(content)).toEqual([
+        { timestamp: '2025-01-01T00:00:00.000Z', message: 'Header fixed' },
+        { timestamp: '2025-01-01T00:05:00.000Z', message: 'Tests pass\n\n- 12 suites' },
+      ]);
+    });
+
+    it('ignores user blocks', () => {
+      expect(parseStatusPosts('Fix the header\n---\nstop')).toEqual([]);
+    });
+  });
+
+  describe('findSelectedOption', () => {
+    const question = formatQuestionSection('q1', 'Which layout?', ['Grid', 'List', 'Cards']);
+
+    it('returns null while no box is ticked', () => {
+      expect(findSelectedOption('Intro' + question, 'q1')).toBeNull();
+    });
+
+    it('returns the ticked option and its index', () => {
+      const answered = ('Intro' + question).replace('- [ ] List', '- [x] List');
+      expect(findSelectedOption(answered, 'q1')).toEqual({ index: 1, option: 'List' });
+    });
+
+    it('ignores ticked boxes outside the question block', () => {
+      const content = '- [x] Unrelated task' + question + '\n---\n- [X] Later note';
+      expect(findSelectedOption(content, 'q1')).toBeNull();
+    });
+
+    it('returns null for an unknown question id', () => {
+      expect(findSelectedOption(question.replace('- [ ] Grid', '- [x] Grid'), 'q2')).toBeNull();
+    });
+
+    it('is parsed as a question block', () => {
+      expect(parseFeedback(question).blocks.map(b => b.kind)).toEqual(['question']);
+    });
+  });
+
+  describe('computeFeedbackDelta', () => {
+    it('returns the full content when nothing was delivered yet', () => {
+      expect(computeFeedbackDelta(undefined, 'first')).toEqual({ type: 'full', text: 'first' });
+    });
+
+    it('returns an empty unchanged delta for identical content', () => {
+      expect(computeFeedbackDelta('same\r\ntext', 'same\ntext')).toEqual({ type: 'unchanged', text: '' });
+    });
+
+    it('returns only appended text', () => {
+      const delta = computeFeedbackDelta('line one\nline two', 'line one\nline two\nline three');
+      expect(delta).toEqual({ type: 'append', text: 'line three' });
+    });
+
+    it('returns a unified diff when earlier content was edited', () => {
+      const delta = computeFeedbackDelta('alpha\nbeta\n', 'alpha\ngamma\n', 'feedback.md');
+
+      expect(delta.type).toBe('diff');
+      expect(delta.text).toContain('--- feedback.md');
+      expect(delta.text).toContain('-beta');
+      expect(delta.text).toContain('+gamma');
+    });
+  });
+});
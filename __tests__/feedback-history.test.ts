@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { setAllowedDirectories } from '../lib.js';
+import {
+  appendHistoryEntry,
+  getHistoryPath,
+  getRotatedHistoryPath,
+  readHistory,
+  type FeedbackHistoryEntry,
+} from '../feedback-history.js';
+
+function entry(overrides: Partial<FeedbackHistoryEntry>): FeedbackHistoryEntry {
+  return {
+    timestamp: '2025-01-01T00:00:00.000Z',
+    path: '/workspace/feedback.md',
+    hash: 'abc',
+    sessionId: 'session-a',
+    mode: 'full',
+    content: 'feedback',
+    ...overrides,
+  };
+}
+
+describe('Feedback History', () => {
+  let testDir: string;
+  let historyPath: string;
+
+  beforeEach(async () => {
+    testDir = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'history-test-')));
+    setAllowedDirectories([testDir]);
+    historyPath = getHistoryPath(path.join(testDir, 'feedback.md'), [testDir]);
+  });
+
+  afterEach(async () => {
+    setAllowedDirectories([]);
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('getHistoryPath', () => {
+    it('uses the allowed directory containing the feedback file', () => {
+      const result = getHistoryPath('/b/sub/feedback.md', ['/a', '/b']);
+      expect(result).toBe(path.join('/b', '.tasksync', 'history.jsonl'));
+    });
+
+    it('falls back to the first allowed directory', () => {
+      const result = getHistoryPath('/elsewhere/feedback.md', ['/a', '/b']);
+      expect(result).toBe(path.join('/a', '.tasksync', 'history.jsonl'));
+    });
+  });
+
+  describe('appendHistoryEntry', () => {
+    it('creates the log and appends one JSON line per entry', async () => {
+      await appendHistoryEntry(historyPath, entry({ content: 'first' }));
+      await appendHistoryEntry(historyPath, entry({ content: 'second' }));
+
+      const lines = (await fs.readFile(historyPath, 'utf-8')).trim().split('\n');
+      expect(lines.map(line => JSON.parse(line).content)).toEqual(['first', 'second']);
+    });
+
+    it('keeps every entry when appends run concurrently', async () => {
+      await Promise.all(['a', 'b', 'c', 'd'].map(content => appendHistoryEntry(historyPath, entry({ content }))));
+
+      const page = await readHistory(historyPath);
+      expect(page.total).toBe(4);
+    });
+
+    it('rotates the log once it would grow past the size limit', async () => {
+      const lineBytes = Buffer.byteLength(`${JSON.stringify(entry({ content: 'one' }))}\n`);
+      for (const content of ['one', 'two', 'six', 'ten']) {
+        await appendHistoryEntry(historyPath, entry({ content }), lineBytes * 2);
+      }
+
+      const read = async (file: string) => (await fs.readFile(file, 'utf-8')).trim().split('\n').map(line => JSON.parse(line).content);
+      expect(getRotatedHistoryPath(historyPath)).toBe(path.join(testDir, '.tasksync', 'history.1.jsonl'));
+      expect(await read(getRotatedHistoryPath(historyPath))).toEqual(['one', 'two']);
+      expect(await read(historyPath)).toEqual(['six', 'ten']);
+      expect((await readHistory(historyPath)).entries.map(e => e.content)).toEqual(['ten', 'six', 'two', 'one']);
+    });
+
+    it('rejects logs outside the allowed directories', async () => {
+      const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'history-outside-'));
+      try {
+        await expect(appendHistoryEntry(path.join(outside, 'history.jsonl'), entry({}))).rejects.toThrow('Access denied');
+      } finally {
+        await fs.rm(outside, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('readHistory', () => {
+    it('returns an empty page when no log exists', async () => {
+      const page = await readHistory(historyPath);
+      expect(page).toEqual({ total: 0, offset: 0, limit: 20, hasMore: false, entries: [] });
+    });
+
+    it('pages entries newest first', async () => {
+      for (const content of ['one', 'two', 'three']) {
+        await appendHistoryEntry(historyPath, entry({ content }));
+      }
+
+      const first = await readHistory(historyPath, { limit: 2 });
+      const second = await readHistory(historyPath, { offset: 2, limit: 2 });
+
+      expect(first.entries.map(e => e.content)).toEqual(['three', 'two']);
+      expect(first.hasMore).toBe(true);
+      expect(second.entries.map(e => e.content)).toEqual(['one']);
+      expect(second.hasMore).toBe(false);
+    });
+
+    it('filters by path, session and timestamp', async () => {
+      await appendHistoryEntry(historyPath, entry({ content: 'old', timestamp: '2025-01-01T00:00:00.000Z' }));
+      await appendHistoryEntry(historyPath, entry({ content: 'other-session', sessionId: 'session-b', timestamp: '2025-02-01T00:00:00.000Z' }));
+      await appendHistoryEntry(historyPath, entry({ content: 'other-path', path: '/workspace/notes.md', timestamp: '2025-02-01T00:00:00.000Z' }));
+      await appendHistoryEntry(historyPath, entry({ content: 'match', timestamp: '2025-03-01T00:00:00.000Z' }));
+
+      const page = await readHistory(historyPath, {
+        path: '/workspace/feedback.md',
+        sessionId: 'session-a',
+        since: '2025-01-15T00:00:00.000Z',
+      });
+
+      expect(page.entries.map(e => e.content)).toEqual(['match']);
+    });
+
+    it('skips malformed lines', async () => {
+      await fs.mkdir(path.dirname(historyPath), { recursive: true });
+      await fs.writeFile(historyPath, `not json\n${JSON.stringify(entry({ content: 'valid' }))}\n`);
+
+      const page = await readHistory(historyPath);
+      expect(page.entries.map(e => e.content)).toEqual(['valid']);
+    });
+
+    it('rejects an invalid since timestamp', async () => {
+      await expect(readHistory(historyPath, { since: 'yesterday' })).rejects.toThrow('Invalid since timestamp');
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { DEFAULT_PROMPTS, loadPrompts, renderPrompt } from '../feedback-prompts.js';
+import { DEFAULT_SERVER_CONFIG, getPlaceholderValues } from '../server-config.js';
+
+describe('Feedback Prompts', () => {
+  let testDir: string;
+  let promptFile: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompts-test-'));
+    promptFile = path.join(testDir, 'prompts.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('loadPrompts', () => {
+    it('serves the built-in variants without a prompt file', async () => {
+      const prompts = await loadPrompts(promptFile);
+
+      expect(prompts.map(prompt => prompt.name)).toEqual(['strict-loop', 'ask-before-finishing', 'checkpoint-only']);
+    });
+
+    it('overrides built-in prompts by name and adds new ones', async () => {
+      await fs.writeFile(promptFile, JSON.stringify({
+        prompts: [
+          { name: 'strict-loop', description: 'Team loop', text: 'Always call get_feedback on {{feedbackPath}}' },
+          { name: 'review-only', text: 'Ask for a review when the PR is ready' },
+        ],
+      }));
+
+      const prompts = await loadPrompts(promptFile);
+
+      expect(prompts.map(prompt => prompt.name)).toEqual(['strict-loop', 'ask-before-finishing', 'checkpoint-only', 'review-only']);
+      expect(prompts[0]).toEqual({ name: 'strict-loop', description: 'Team loop', text: 'Always call get_feedback on {{feedbackPath}}' });
+      expect(prompts[3].description).toBe('');
+    });
+
+    it('rejects malformed prompt files', async () => {
+      await fs.writeFile(promptFile, '{ not json');
+      await expect(loadPrompts(promptFile)).rejects.toThrow('Invalid prompt file');
+
+      await fs.writeFile(promptFile, JSON.stringify({ prompts: [{ name: 'bad name', text: 'x' }] }));
+      await expect(loadPrompts(promptFile)).rejects.toThrow('prompts.0.name');
+    });
+  });
+
+  describe('renderPrompt', () => {
+    it('fills in the feedback path, tool names and termination keywords', () => {
+      const config = { ...DEFAULT_SERVER_CONFIG, toolPrefix: 'tasksync_', terminationKeywords: ['done', 'ship it'] };
+      const text = renderPrompt(DEFAULT_PROMPTS[0], { ...getPlaceholderValues(config), feedbackPath: 'feedback.frontend.md' });
+
+      expect(text).toContain('`tasksync_get_feedback` tool with the feedback file feedback.frontend.md');
+      expect(text).toContain('"done" or "ship it"');
+      expect(text).not.toContain('{{');
+    });
+
+    it('leaves unknown placeholders untouched', () => {
+      const prompt = { name: 'p', description: '', text: '{{feedbackPath}} {{other}}' };
+
+      expect(renderPrompt(prompt, { feedbackPath: 'feedback.md' })).toBe('feedback.md {{other}}');
+    });
+  });
+});
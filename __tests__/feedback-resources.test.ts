@@ -0,0 +1,28 @@
+import { describe, it, expect } from '@jest/globals';
+import { feedbackResourcePath, feedbackResourceUri } from '../feedback-resources.js';
+
+describe('Feedback Resources', () => {
+  describe('feedbackResourceUri', () => {
+    it('uses the path relative to the base directory', () => {
+      expect(feedbackResourceUri('/ws/feedback.md', '/ws')).toBe('tasksync://feedback/feedback.md');
+      expect(feedbackResourceUri('/ws/docs/review notes.md', '/ws')).toBe('tasksync://feedback/docs/review%20notes.md');
+    });
+
+    it('uses the absolute path for files outside the base directory', () => {
+      expect(feedbackResourceUri('/other/feedback.md', '/ws')).toBe('tasksync://feedback//other/feedback.md');
+    });
+  });
+
+  describe('feedbackResourcePath', () => {
+    it('round-trips the URIs of feedbackResourceUri', () => {
+      for (const filePath of ['/ws/feedback.md', '/ws/docs/review notes.md', '/other/feedback.md']) {
+        expect(feedbackResourcePath(feedbackResourceUri(filePath, '/ws'), '/ws')).toBe(filePath);
+      }
+    });
+
+    it('rejects other URIs', () => {
+      expect(() => feedbackResourcePath('file:///ws/feedback.md', '/ws')).toThrow('Not a feedback resource');
+      expect(() => feedbackResourcePath('tasksync://feedback/', '/ws')).toThrow('Not a feedback resource');
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from '@jest/globals';
+import { buildTimeoutResult, type FeedbackTimeout } from '../feedback-timeout.js';
+
+const timeout: FeedbackTimeout = {
+  path: 'feedback.md',
+  timeoutMs: 60000,
+  elapsedMs: 60000,
+  idleMs: 90000,
+  getFeedbackTool: 'ts_get_feedback',
+};
+
+describe('Feedback Timeout', () => {
+  it('rejects in error mode', () => {
+    expect(() => buildTimeoutResult({ mode: 'error', maxIdleMs: null }, timeout)).toThrow('Timeout waiting for file change (60000ms)');
+  });
+
+  it('returns empty text in empty mode', () => {
+    const result = buildTimeoutResult({ mode: 'empty', maxIdleMs: null }, timeout);
+
+    expect(result.content).toEqual([{ type: 'text', text: '' }]);
+    expect(result.structuredContent).toEqual({
+      status: 'no_feedback',
+      path: 'feedback.md',
+      elapsedMs: 60000,
+      timeoutMs: 60000,
+      idleMs: 90000,
+      remainingMs: null,
+    });
+  });
+
+  it('asks the agent to call the prefixed tool again in heartbeat mode', () => {
+    const result = buildTimeoutResult({ mode: 'heartbeat', maxIdleMs: 300000 }, timeout);
+
+    expect(result.content[0].text).toBe('No new feedback after 60s. Call ts_get_feedback again to keep waiting.');
+    expect(result.structuredContent.remainingMs).toBe(210000);
+  });
+
+  it('switches to an error once the max-idle budget is spent', () => {
+    expect(() => buildTimeoutResult({ mode: 'heartbeat', maxIdleMs: 90000 }, timeout)).toThrow('Timeout waiting for file change');
+    expect(() => buildTimeoutResult({ mode: 'empty', maxIdleMs: 30000 }, timeout)).toThrow('Timeout waiting for file change');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { waitForFileChange, resolveWaiters, cancelWaiters, type FeedbackWaiter } from '../feedback-wait.js';
+
+describe('Feedback Wait Queue', () => {
+  let queue: FeedbackWaiter[];
+
+  beforeEach(() => {
+    queue = [];
+    jest.useFakeTimers();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('resolves queued waiters for the changed path only', async () => {
+    const feedback = waitForFileChange(queue, '/ws/feedback.md', 1000);
+    const other = waitForFileChange(queue, '/ws/other.md', 1000);
+
+    expect(resolveWaiters(queue, '/ws/feedback.md', 'new content')).toBe(1);
+
+    await expect(feedback).resolves.toEqual({ status: 'changed', content: 'new content', path: '/ws/feedback.md' });
+    expect(queue.map(waiter => waiter.paths)).toEqual([['/ws/other.md']]);
+
+    resolveWaiters(queue, '/ws/other.md', 'other content');
+    await other;
+  });
+
+  it('records the waiting tool, start time and timeout', async () => {
+    const wait = waitForFileChange(queue, '/ws/feedback.md', 1000, undefined, 'ask_user');
+
+    expect(queue[0]).toMatchObject({ tool: 'ask_user', startedAt: Date.now(), timeoutMs: 1000 });
+
+    resolveWaiters(queue, '/ws/feedback.md', 'content');
+    await wait;
+  });
+
+  it('removes the waiter and reports a timeout', async () => {
+    const wait = waitForFileChange(queue, '/ws/feedback.md', 1000);
+
+    jest.advanceTimersByTime(1000);
+
+    await expect(wait).resolves.toEqual({ status: 'timeout' });
+    expect(queue).toHaveLength(0);
+  });
+
+  it('drains the queue and clears the timer when the request is cancelled', async () => {
+    const controller = new AbortController();
+    const wait = waitForFileChange(queue, '/ws/feedback.md', 1000, controller.signal);
+    expect(queue).toHaveLength(1);
+    expect(jest.getTimerCount()).toBe(1);
+
+    controller.abort();
+
+    await expect(wait).resolves.toEqual({ status: 'cancelled' });
+    expect(queue).toHaveLength(0);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('does not accumulate waiters over repeated cancel and retry cycles', async () => {
+    for (let i = 0; i < 10; i++) {
+      const controller = new AbortController();
+      const wait = waitForFileChange(queue, '/ws/feedback.md', 60000, controller.signal);
+      controller.abort();
+      await wait;
+    }
+
+    expect(queue).toHaveLength(0);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('returns immediately for an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(waitForFileChange(queue, '/ws/feedback.md', 1000, controller.signal)).resolves.toEqual({ status: 'cancelled' });
+    expect(queue).toHaveLength(0);
+  });
+
+  it('ignores cancellation after the file changed', async () => {
+    const controller = new AbortController();
+    const wait = waitForFileChange(queue, '/ws/feedback.md', 1000, controller.signal);
+
+    resolveWaiters(queue, '/ws/feedback.md', 'content');
+    controller.abort();
+
+    await expect(wait).resolves.toEqual({ status: 'changed', content: 'content', path: '/ws/feedback.md' });
+  });
+
+  it('cancels every wait of a queue from the server side', async () => {
+    const first = waitForFileChange(queue, '/ws/feedback.md', 1000);
+    const second = waitForFileChange(queue, ['/ws/a.md', '/ws/b.md'], 1000);
+
+    expect(cancelWaiters(queue)).toBe(2);
+
+    await expect(first).resolves.toEqual({ status: 'cancelled' });
+    await expect(second).resolves.toEqual({ status: 'cancelled' });
+    expect(queue).toHaveLength(0);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('resolves a group wait with whichever file changed first', async () => {
+    const wait = waitForFileChange(queue, ['/ws/feedback/frontend.md', '/ws/feedback/backend.md'], 1000);
+
+    expect(resolveWaiters(queue, '/ws/feedback/backend.md', 'backend feedback')).toBe(1);
+    expect(resolveWaiters(queue, '/ws/feedback/frontend.md', 'frontend feedback')).toBe(0);
+
+    await expect(wait).resolves.toEqual({ status: 'changed', content: 'backend feedback', path: '/ws/feedback/backend.md' });
+    expect(queue).toHaveLength(0);
+  });
+});
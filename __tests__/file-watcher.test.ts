@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { watchDirectory, watchFile, type FileWatcherHandle } from '../file-watcher.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('watchFile', () => {
+  let testDir: string;
+  let filePath: string;
+  let handle: FileWatcherHandle | undefined;
+  let calls: number;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'watcher-test-'));
+    filePath = path.join(testDir, 'feedback.md');
+    await fs.writeFile(filePath, 'initial');
+    calls = 0;
+  });
+
+  afterEach(async () => {
+    handle?.close();
+    handle = undefined;
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('merges a burst of writes into one callback', async () => {
+    handle = watchFile(filePath, () => calls++, { debounceMs: 150 });
+
+    await fs.writeFile(filePath, 'one');
+    await fs.writeFile(filePath, 'two');
+    await fs.appendFile(filePath, ' three');
+    await sleep(500);
+
+    expect(calls).toBe(1);
+  });
+
+  it('keeps reporting changes after an atomic rename save', async () => {
+    handle = watchFile(filePath, () => calls++, { debounceMs: 50 });
+
+    const tempPath = path.join(testDir, 'feedback.md.tmp');
+    await fs.writeFile(tempPath, 'renamed');
+    await fs.rename(tempPath, filePath);
+    await sleep(300);
+    const afterRename = calls;
+
+    await fs.writeFile(filePath, 'edited after rename');
+    await sleep(300);
+
+    expect(afterRename).toBeGreaterThanOrEqual(1);
+    expect(calls).toBeGreaterThan(afterRename);
+  });
+
+  it('ignores other files in the same directory', async () => {
+    handle = watchFile(filePath, () => calls++, { debounceMs: 50 });
+
+    await fs.writeFile(path.join(testDir, 'notes.md'), 'unrelated');
+    await sleep(300);
+
+    expect(calls).toBe(0);
+  });
+
+  it('stops reporting after close', async () => {
+    handle = watchFile(filePath, () => calls++, { debounceMs: 50 });
+    handle.close();
+
+    await fs.writeFile(filePath, 'after close');
+    await sleep(300);
+
+    expect(calls).toBe(0);
+  });
+});
+
+describe('watchDirectory', () => {
+  let testDir: string;
+  let handle: FileWatcherHandle | undefined;
+  let calls: number;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'watcher-test-'));
+    await fs.mkdir(path.join(testDir, 'sub'));
+    calls = 0;
+  });
+
+  afterEach(async () => {
+    handle?.close();
+    handle = undefined;
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('reports new files once per burst', async () => {
+    handle = watchDirectory(testDir, () => calls++, { debounceMs: 100 });
+
+    await fs.writeFile(path.join(testDir, 'feedback-a.md'), 'a');
+    await fs.writeFile(path.join(testDir, 'feedback-b.md'), 'b');
+    await sleep(400);
+
+    expect(calls).toBe(1);
+  });
+
+  it('reports files in subdirectories only when recursive', async () => {
+    handle = watchDirectory(testDir, () => calls++, { debounceMs: 50 });
+    await fs.writeFile(path.join(testDir, 'sub', 'feedback.md'), 'nested');
+    await sleep(300);
+    expect(calls).toBe(0);
+    handle.close();
+
+    handle = watchDirectory(testDir, () => calls++, { debounceMs: 50, recursive: true });
+    await fs.writeFile(path.join(testDir, 'sub', 'other.md'), 'nested');
+    await sleep(300);
+    expect(calls).toBe(1);
+  });
+});
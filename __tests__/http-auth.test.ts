@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  AUTH_TOKEN_ENV,
+  buildHostAllowlist,
+  isAuthorized,
+  isHostAllowed,
+  isLoopbackHost,
+  isOriginAllowed,
+  loadAuthToken,
+  parseOriginList,
+} from '../http-auth.js';
+
+describe('HTTP Auth', () => {
+  describe('loadAuthToken', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'auth-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('reads the token from the environment', async () => {
+      await expect(loadAuthToken({ [AUTH_TOKEN_ENV]: ' secret \n' })).resolves.toBe('secret');
+    });
+
+    it('disables authentication when no token is configured', async () => {
+      await expect(loadAuthToken({})).resolves.toBeNull();
+      await expect(loadAuthToken({ [AUTH_TOKEN_ENV]: '  ' })).resolves.toBeNull();
+    });
+
+    it('prefers the token file over the environment', async () => {
+      const tokenFile = path.join(testDir, 'token');
+      await fs.writeFile(tokenFile, 'from-file\n');
+
+      await expect(loadAuthToken({ [AUTH_TOKEN_ENV]: 'from-env' }, tokenFile)).resolves.toBe('from-file');
+    });
+
+    it('rejects an empty or missing token file', async () => {
+      const tokenFile = path.join(testDir, 'token');
+      await fs.writeFile(tokenFile, '\n');
+
+      await expect(loadAuthToken({}, tokenFile)).rejects.toThrow('Token file is empty');
+      await expect(loadAuthToken({}, path.join(testDir, 'missing'))).rejects.toThrow();
+    });
+  });
+
+  describe('isAuthorized', () => {
+    it('accepts the matching bearer token', () => {
+      expect(isAuthorized('Bearer secret', 'secret')).toBe(true);
+      expect(isAuthorized('bearer secret', 'secret')).toBe(true);
+    });
+
+    it('rejects missing, malformed or wrong credentials', () => {
+      expect(isAuthorized(undefined, 'secret')).toBe(false);
+      expect(isAuthorized('secret', 'secret')).toBe(false);
+      expect(isAuthorized('Basic secret', 'secret')).toBe(false);
+      expect(isAuthorized('Bearer secre', 'secret')).toBe(false);
+      expect(isAuthorized('Bearer secret extra', 'secret')).toBe(false);
+    });
+  });
+
+  describe('CORS allowlist', () => {
+    it('parses a comma-separated origin list', () => {
+      expect(parseOriginList('http://localhost:5173/, https://app.example.com')).toEqual([
+        'http://localhost:5173',
+        'https://app.example.com',
+      ]);
+      expect(parseOriginList(undefined)).toEqual([]);
+    });
+
+    it('allows only listed origins', () => {
+      const allowed = ['http://localhost:5173'];
+      expect(isOriginAllowed('http://localhost:5173', allowed)).toBe(true);
+      expect(isOriginAllowed('http://evil.example.com', allowed)).toBe(false);
+      expect(isOriginAllowed(undefined, allowed)).toBe(false);
+      expect(isOriginAllowed('http://localhost:5173', [])).toBe(false);
+    });
+
+    it('allows every origin with a wildcard', () => {
+      expect(isOriginAllowed('http://anything.example.com', ['*'])).toBe(true);
+    });
+  });
+
+  describe('isLoopbackHost', () => {
+    it('recognizes loopback bind addresses', () => {
+      for (const host of ['127.0.0.1', '127.0.1.1', 'localhost', '::1', '[::1]']) {
+        expect(isLoopbackHost(host)).toBe(true);
+      }
+      for (const host of ['0.0.0.0', '::', '192.168.1.10', 'example.com']) {
+        expect(isLoopbackHost(host)).toBe(false);
+      }
+    });
+  });
+
+  describe('Host allowlist', () => {
+    it('accepts loopback names with or without a port on the default bind', () => {
+      const allowed = buildHostAllowlist('127.0.0.1', undefined);
+
+      expect(isHostAllowed('localhost:3001', allowed)).toBe(true);
+      expect(isHostAllowed('127.0.0.1:3001', allowed)).toBe(true);
+      expect(isHostAllowed('[::1]:3001', allowed)).toBe(true);
+    });
+
+    it('rejects other names, as a DNS-rebinding page would send', () => {
+      const allowed = buildHostAllowlist('127.0.0.1', undefined);
+
+      expect(isHostAllowed('attacker.example.com:3001', allowed)).toBe(false);
+      expect(isHostAllowed(undefined, allowed)).toBe(false);
+    });
+
+    it('adds the bind address and --allowed-hosts', () => {
+      const allowed = buildHostAllowlist('192.168.1.10', 'devbox.lan, Build.Example.com');
+
+      expect(isHostAllowed('192.168.1.10:3001', allowed)).toBe(true);
+      expect(isHostAllowed('build.example.com', allowed)).toBe(true);
+      expect(isHostAllowed('other.lan', allowed)).toBe(false);
+    });
+
+    it('allows any host on a wildcard bind unless hosts are listed', () => {
+      expect(buildHostAllowlist('0.0.0.0', undefined)).toEqual(['*']);
+      expect(isHostAllowed('devbox.lan', buildHostAllowlist('0.0.0.0', 'devbox.lan'))).toBe(true);
+      expect(isHostAllowed('other.lan', buildHostAllowlist('::', 'devbox.lan'))).toBe(false);
+    });
+  });
+});
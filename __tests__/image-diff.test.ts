@@ -0,0 +1,100 @@
+import { describe, it, expect } from '@jest/globals';
+import sharp from 'sharp';
+import { MAX_DIFF_PIXELS, compareImages, diffPixels, findChangedRegions } from '../image-diff.js';
+
+// White canvas with optional black rectangles
+async function screenshot(width: number, height: number, boxes: { x: number; y: number; width: number; height: number }[] = []): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: '#ffffff' } })
+    .composite(boxes.map(box => ({
+      input: { create: { width: box.width, height: box.height, channels: 3, background: '#000000' } },
+      left: box.x,
+      top: box.y,
+    })))
+    .png()
+    .toBuffer();
+}
+
+function maskWith(width: number, height: number, pixels: [number, number][]): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (const [x, y] of pixels) mask[y * width + x] = 1;
+  return mask;
+}
+
+describe('Image Diff', () => {
+  describe('diffPixels', () => {
+    it('counts pixels whose channels differ by more than the threshold', () => {
+      const before = Uint8Array.from([0, 0, 0, 255, 100, 100, 100, 255, 10, 10, 10, 255]);
+      const after = Uint8Array.from([0, 0, 0, 255, 110, 100, 100, 255, 10, 10, 10, 0]);
+
+      const { mask, changedPixels } = diffPixels(before, after, 0.02);
+
+      expect(Array.from(mask)).toEqual([0, 1, 1]);
+      expect(changedPixels).toBe(2);
+      expect(diffPixels(before, after, 0.1).changedPixels).toBe(1);
+    });
+  });
+
+  describe('findChangedRegions', () => {
+    it('merges nearby pixels and keeps distant ones apart, largest first', () => {
+      const mask = maskWith(100, 100, [[2, 2], [5, 6], [90, 90], [95, 95]]);
+
+      expect(findChangedRegions(mask, 100, 100, 8)).toEqual([
+        { x: 90, y: 90, width: 6, height: 6 },
+        { x: 2, y: 2, width: 4, height: 5 },
+      ]);
+    });
+
+    it('joins regions across diagonal cells', () => {
+      const mask = maskWith(32, 32, [[7, 7], [8, 8]]);
+
+      expect(findChangedRegions(mask, 32, 32, 8)).toEqual([{ x: 7, y: 7, width: 2, height: 2 }]);
+    });
+
+    it('returns no regions for identical images', () => {
+      expect(findChangedRegions(new Uint8Array(16), 4, 4)).toEqual([]);
+    });
+  });
+
+  describe('compareImages', () => {
+    it('reports the changed percentage, regions and a diff image', async () => {
+      const before = await screenshot(100, 50);
+      const after = await screenshot(100, 50, [{ x: 10, y: 10, width: 20, height: 10 }]);
+
+      const comparison = await compareImages(before, after);
+
+      expect(comparison).toMatchObject({ width: 100, height: 50, changedPixels: 200, changedPercent: 4, regionCount: 1 });
+      expect(comparison.regions).toEqual([{ x: 10, y: 10, width: 20, height: 10 }]);
+      expect(await sharp(comparison.diff).metadata()).toMatchObject({ format: 'png', width: 100, height: 50 });
+    });
+
+    it('counts the area only one image covers as changed', async () => {
+      const comparison = await compareImages(await screenshot(40, 40), await screenshot(40, 50));
+
+      expect(comparison).toMatchObject({ width: 40, height: 50, changedPixels: 400, beforeSize: { width: 40, height: 40 } });
+      expect(comparison.regions).toEqual([{ x: 0, y: 40, width: 40, height: 10 }]);
+    });
+
+    // Coverage instrumentation slows the per-pixel loops down several times, hence the timeout
+    it('downscales images over the pixel budget and reports full-size coordinates', async () => {
+      const before = await screenshot(3200, 2000);
+      const after = await screenshot(3200, 2000, [{ x: 1000, y: 1000, width: 400, height: 300 }]);
+
+      const comparison = await compareImages(before, after);
+
+      expect(comparison.scale).toBeCloseTo(Math.sqrt(MAX_DIFF_PIXELS / (3200 * 2000)), 5);
+      expect(comparison).toMatchObject({ width: 3200, height: 2000, regionCount: 1, changedPercent: 1.88 });
+      expect(comparison.changedPixels).toBeGreaterThan(400 * 300 * 0.95);
+      expect(comparison.changedPixels).toBeLessThan(400 * 300 * 1.05);
+      const [region] = comparison.regions;
+      expect(region.x).toBeGreaterThanOrEqual(997);
+      expect(region.x).toBeLessThanOrEqual(1000);
+      expect(region.x + region.width).toBeGreaterThanOrEqual(1400);
+      expect(region.x + region.width).toBeLessThanOrEqual(1403);
+      expect((await sharp(comparison.diff).metadata()).width).toBe(Math.round(3200 * comparison.scale));
+    }, 30000);
+
+    it('rejects files that are not images', async () => {
+      await expect(compareImages(await screenshot(10, 10), Buffer.from('nope'))).rejects.toThrow('Cannot decode the after image');
+    });
+  });
+});
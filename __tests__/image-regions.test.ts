@@ -0,0 +1,82 @@
+import { describe, it, expect } from '@jest/globals';
+import sharp from 'sharp';
+import {
+  assertRegionInImage,
+  describeOrientation,
+  drawGrid,
+  extractRegion,
+  findTile,
+  getGridTiles,
+  readImageInfo,
+} from '../image-regions.js';
+
+async function solidJpeg(width: number, height: number, orientation?: number): Promise<Buffer> {
+  const image = sharp({ create: { width, height, channels: 3, background: '#336699' } }).jpeg();
+  return (orientation ? image.withMetadata({ orientation }) : image).toBuffer();
+}
+
+describe('Image Regions', () => {
+  describe('getGridTiles', () => {
+    it('labels tiles row by row and covers the whole image', () => {
+      const tiles = getGridTiles(100, 50, { columns: 3, rows: 2 });
+
+      expect(tiles.map(tile => tile.label)).toEqual(['A1', 'B1', 'C1', 'A2', 'B2', 'C2']);
+      expect(tiles[0].region).toEqual({ x: 0, y: 0, width: 33, height: 25 });
+      expect(tiles[5].region).toEqual({ x: 66, y: 25, width: 34, height: 25 });
+      expect(tiles.reduce((area, tile) => area + tile.region.width * tile.region.height, 0)).toBe(100 * 50);
+    });
+
+    it('rejects grids finer than the image', () => {
+      expect(() => getGridTiles(2, 2, { columns: 3, rows: 1 })).toThrow('Cannot split a 2x2 image');
+      expect(() => getGridTiles(1000, 1000, { columns: 27, rows: 1 })).toThrow('at most 26 columns');
+    });
+  });
+
+  describe('findTile', () => {
+    it('finds tiles by label, ignoring case', () => {
+      const tiles = getGridTiles(100, 100, { columns: 2, rows: 2 });
+
+      expect(findTile(tiles, ' b2 ').region).toEqual({ x: 50, y: 50, width: 50, height: 50 });
+      expect(() => findTile(tiles, 'C1')).toThrow('tiles run from A1 to B2');
+    });
+  });
+
+  describe('assertRegionInImage', () => {
+    it('accepts regions inside the image and rejects the rest', () => {
+      expect(() => assertRegionInImage({ x: 0, y: 0, width: 100, height: 50 }, 100, 50)).not.toThrow();
+      expect(() => assertRegionInImage({ x: 90, y: 0, width: 20, height: 10 }, 100, 50)).toThrow('lies outside the 100x50 image');
+      expect(() => assertRegionInImage({ x: 0, y: 0, width: 0, height: 10 }, 100, 50)).toThrow('positive width and height');
+    });
+  });
+
+  describe('describeOrientation', () => {
+    it('names EXIF orientations', () => {
+      expect(describeOrientation(null)).toBe('none');
+      expect(describeOrientation(6)).toBe('6 (rotated 90° clockwise)');
+    });
+  });
+
+  describe('image operations', () => {
+    it('reports the displayed dimensions of rotated photos', async () => {
+      const info = await readImageInfo(await solidJpeg(40, 20, 6));
+
+      expect(info).toEqual({ format: 'jpeg', width: 20, height: 40, orientation: 6 });
+      expect(await readImageInfo(Buffer.from('not an image'))).toBeNull();
+    });
+
+    it('extracts regions in displayed coordinates', async () => {
+      const region = await extractRegion(await solidJpeg(40, 20, 6), { x: 5, y: 10, width: 15, height: 30 });
+
+      expect(await sharp(region).metadata()).toMatchObject({ format: 'png', width: 15, height: 30 });
+    });
+
+    it('draws the grid without changing the dimensions', async () => {
+      const jpeg = await solidJpeg(80, 60);
+      const info = (await readImageInfo(jpeg))!;
+
+      const annotated = await drawGrid(jpeg, info, getGridTiles(80, 60, { columns: 2, rows: 2 }));
+
+      expect(await sharp(annotated).metadata()).toMatchObject({ format: 'png', width: 80, height: 60 });
+    });
+  });
+});
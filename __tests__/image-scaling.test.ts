@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+import sharp from 'sharp';
+import { DEFAULT_IMAGE_LIMITS, scaleImage } from '../image-scaling.js';
+
+// Random pixels compress badly, so the encoded size grows with the dimensions
+async function noisePng(width: number, height: number): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let i = 0; i < pixels.length; i++) pixels[i] = Math.floor(Math.random() * 256);
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
+
+describe('Image Scaling', () => {
+  it('returns images within the limits untouched', async () => {
+    const png = await noisePng(40, 30);
+
+    const image = await scaleImage(png, 'image/png', DEFAULT_IMAGE_LIMITS);
+
+    expect(image.data).toBe(png);
+    expect(image).toMatchObject({ mimeType: 'image/png', width: 40, height: 30, originalWidth: 40, originalHeight: 30, scaled: false });
+  });
+
+  it('downscales images larger than maxWidth/maxHeight, keeping the aspect ratio', async () => {
+    const png = await noisePng(400, 200);
+
+    const image = await scaleImage(png, 'image/png', { ...DEFAULT_IMAGE_LIMITS, maxWidth: 100 });
+
+    expect(image).toMatchObject({ mimeType: 'image/png', width: 100, height: 50, originalWidth: 400, originalHeight: 200, scaled: true });
+    expect(image.originalBytes).toBe(png.length);
+    expect(await sharp(image.data).metadata()).toMatchObject({ width: 100, height: 50 });
+  });
+
+  it('re-encodes and shrinks until the image fits maxBytes', async () => {
+    const png = await noisePng(300, 300);
+
+    const image = await scaleImage(png, 'image/png', { ...DEFAULT_IMAGE_LIMITS, maxBytes: 20_000 });
+
+    expect(image.data.length).toBeLessThanOrEqual(20_000);
+    expect(image.mimeType).toBe('image/webp');
+    expect(image.scaled).toBe(true);
+  });
+
+  it('passes through formats it cannot decode, within maxBytes', async () => {
+    const bmp = Buffer.from('BM not really a bitmap');
+
+    await expect(scaleImage(bmp, 'image/bmp', DEFAULT_IMAGE_LIMITS)).resolves.toMatchObject({ data: bmp, width: null, scaled: false });
+    await expect(scaleImage(bmp, 'image/bmp', { ...DEFAULT_IMAGE_LIMITS, maxBytes: 5 })).rejects.toThrow('Cannot downscale image/bmp');
+  });
+
+  it('fails clearly when the image cannot be shrunk enough', async () => {
+    const png = await noisePng(64, 64);
+
+    await expect(scaleImage(png, 'image/png', { ...DEFAULT_IMAGE_LIMITS, maxBytes: 10 })).rejects.toThrow('Cannot fit the image into 10 bytes');
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DEFAULT_EXTRACTED_IMAGES,
+  MAX_EXTRACTED_IMAGES,
+  PDF_RENDER_DPI,
+  extractKeyframes,
+  getMediaType,
+  parseMediaRange,
+  renderPdfPages,
+} from '../media.js';
+
+// The converters are not installed everywhere, so execFile is replaced by a fake that writes
+// the PNGs the real tool would, or fails like it
+jest.mock('child_process', () => ({ execFile: jest.fn() }));
+
+type ExecFileCallback = (error: Error | null, result?: { stdout: string; stderr: string }) => void;
+const execFileMock = execFile as unknown as jest.Mock<(command: string, args: string[], options: object, callback: ExecFileCallback) => void>;
+
+function fakeConverter(writeOutput: (args: string[]) => string[]) {
+  execFileMock.mockImplementation((_command, args, _options, callback) => {
+    for (const file of writeOutput(args)) fs.writeFileSync(file, `png ${path.basename(file)}`);
+    callback(null, { stdout: '', stderr: '' });
+  });
+}
+
+function failingConverter(error: Error & { code?: string | number; stderr?: string }) {
+  execFileMock.mockImplementation((_command, _args, _options, callback) => callback(error));
+}
+
+describe('Media', () => {
+  describe('getMediaType', () => {
+    it('classifies files by extension, ignoring case', () => {
+      expect(getMediaType('/ws/shot.PNG')).toEqual({ kind: 'image', mimeType: 'image/png' });
+      expect(getMediaType('/ws/voice.mp3')).toEqual({ kind: 'audio', mimeType: 'audio/mpeg' });
+      expect(getMediaType('/ws/recording.webm')).toEqual({ kind: 'video', mimeType: 'video/webm' });
+      expect(getMediaType('/ws/design.pdf')).toEqual({ kind: 'pdf', mimeType: 'application/pdf' });
+    });
+
+    it('returns null for unsupported files', () => {
+      expect(getMediaType('/ws/notes.txt')).toBeNull();
+      expect(getMediaType('/ws/Makefile')).toBeNull();
+    });
+  });
+
+  describe('parseMediaRange', () => {
+    it('defaults to the first items', () => {
+      expect(parseMediaRange(undefined)).toEqual({ first: 1, last: DEFAULT_EXTRACTED_IMAGES });
+    });
+
+    it('parses single numbers, closed and open ranges', () => {
+      expect(parseMediaRange('3')).toEqual({ first: 3, last: 3 });
+      expect(parseMediaRange(' 2 - 5 ')).toEqual({ first: 2, last: 5 });
+      expect(parseMediaRange('4-')).toEqual({ first: 4, last: 4 + DEFAULT_EXTRACTED_IMAGES - 1 });
+    });
+
+    it('rejects malformed and reversed ranges', () => {
+      expect(() => parseMediaRange('first')).toThrow('Invalid range');
+      expect(() => parseMediaRange('0')).toThrow('Invalid range');
+      expect(() => parseMediaRange('5-2')).toThrow('Invalid range');
+    });
+
+    it('limits how many items one call returns', () => {
+      expect(parseMediaRange(`1-${MAX_EXTRACTED_IMAGES}`)).toEqual({ first: 1, last: MAX_EXTRACTED_IMAGES });
+      expect(() => parseMediaRange(`1-${MAX_EXTRACTED_IMAGES + 1}`)).toThrow(`at most ${MAX_EXTRACTED_IMAGES}`);
+    });
+  });
+
+  describe('renderPdfPages', () => {
+    beforeEach(() => {
+      execFileMock.mockReset();
+    });
+
+    it('runs pdftoppm for the page range and returns the pages in order', async () => {
+      // pdftoppm pads page numbers to the width of the page count
+      fakeConverter(args => ['09', '10'].map(page => `${args[args.length - 1]}-${page}.png`));
+
+      const pages = await renderPdfPages('/ws/design.pdf', { first: 9, last: 10 });
+
+      const [command, args] = execFileMock.mock.calls[0];
+      expect(command).toBe('pdftoppm');
+      expect(args.slice(0, 8)).toEqual(['-png', '-r', String(PDF_RENDER_DPI), '-f', '9', '-l', '10', '/ws/design.pdf']);
+      expect(pages.map(page => [page.index, page.data.toString()])).toEqual([[9, 'png page-09.png'], [10, 'png page-10.png']]);
+    });
+
+    it('explains how to install a missing pdftoppm', async () => {
+      failingConverter(Object.assign(new Error('spawn pdftoppm ENOENT'), { code: 'ENOENT' }));
+
+      await expect(renderPdfPages('/ws/design.pdf', { first: 1, last: 1 })).rejects.toThrow('pdftoppm is not installed: install poppler-utils');
+    });
+
+    it('reports the last line the converter printed on failure', async () => {
+      failingConverter(Object.assign(new Error('Command failed'), { code: 1, stderr: 'Syntax Warning\nI/O Error: Couldn\'t open file' }));
+
+      await expect(renderPdfPages('/ws/missing.pdf', { first: 1, last: 1 })).rejects.toThrow("pdftoppm failed: I/O Error: Couldn't open file");
+    });
+  });
+
+  describe('extractKeyframes', () => {
+    beforeEach(() => {
+      execFileMock.mockReset();
+    });
+
+    it('selects the keyframes of the range with ffmpeg', async () => {
+      fakeConverter(args => [1, 2, 3].map(frame => args[args.length - 1].replace('%03d', String(frame).padStart(3, '0'))));
+
+      const frames = await extractKeyframes('/ws/clip.webm', { first: 4, last: 6 });
+
+      const [command, args] = execFileMock.mock.calls[0];
+      expect(command).toBe('ffmpeg');
+      expect(args).toEqual(expect.arrayContaining(['-skip_frame', 'nokey', '-i', '/ws/clip.webm']));
+      expect(args[args.indexOf('-vf') + 1]).toBe("select='between(n\\,3\\,5)'");
+      expect(args[args.indexOf('-frames:v') + 1]).toBe('3');
+      expect(frames.map(frame => frame.index)).toEqual([4, 5, 6]);
+    });
+
+    it('explains how to install a missing ffmpeg', async () => {
+      failingConverter(Object.assign(new Error('spawn ffmpeg ENOENT'), { code: 'ENOENT' }));
+
+      await expect(extractKeyframes('/ws/clip.webm', { first: 1, last: 1 })).rejects.toThrow('ffmpeg is not installed: install ffmpeg');
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  createMetricsRegistry,
+  escapeLabelValue,
+  recordDelivery,
+  recordToolCall,
+  recordWait,
+  recordWatcherError,
+  renderPrometheus,
+  type MetricsRegistry,
+} from '../metrics.js';
+
+const snapshot = { activeWaits: 2, watchedFiles: 3, connections: 1 };
+
+describe('Metrics', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = createMetricsRegistry();
+  });
+
+  it('renders gauges from the snapshot', () => {
+    const text = renderPrometheus(registry, snapshot);
+
+    expect(text).toContain('# TYPE tasksync_active_waits gauge\ntasksync_active_waits 2\n');
+    expect(text).toContain('tasksync_watched_files 3\n');
+    expect(text).toContain('tasksync_connections 1\n');
+  });
+
+  it('counts tool calls per tool and deliveries per path', () => {
+    recordToolCall(registry, 'get_feedback');
+    recordToolCall(registry, 'get_feedback');
+    recordToolCall(registry, 'view_media');
+    recordDelivery(registry, 'feedback.md');
+    recordWatcherError(registry);
+
+    const text = renderPrometheus(registry, snapshot);
+
+    expect(text).toContain('tasksync_tool_calls_total{tool="get_feedback"} 2\n');
+    expect(text).toContain('tasksync_tool_calls_total{tool="view_media"} 1\n');
+    expect(text).toContain('tasksync_deliveries_total{path="feedback.md"} 1\n');
+    expect(text).toContain('tasksync_watcher_errors_total 1\n');
+  });
+
+  it('records wait durations as cumulative histogram buckets per outcome', () => {
+    recordWait(registry, 'changed', 3000);
+    recordWait(registry, 'changed', 45000);
+    recordWait(registry, 'timeout', 300000);
+
+    const text = renderPrometheus(registry, snapshot);
+
+    expect(text).toContain('# TYPE tasksync_wait_duration_seconds histogram');
+    expect(text).toContain('tasksync_wait_duration_seconds_bucket{outcome="changed",le="1"} 0\n');
+    expect(text).toContain('tasksync_wait_duration_seconds_bucket{outcome="changed",le="5"} 1\n');
+    expect(text).toContain('tasksync_wait_duration_seconds_bucket{outcome="changed",le="60"} 2\n');
+    expect(text).toContain('tasksync_wait_duration_seconds_bucket{outcome="changed",le="+Inf"} 2\n');
+    expect(text).toContain('tasksync_wait_duration_seconds_sum{outcome="changed"} 48\n');
+    expect(text).toContain('tasksync_wait_duration_seconds_count{outcome="timeout"} 1\n');
+    expect(text).toContain('tasksync_timeouts_total 1\n');
+  });
+
+  it('escapes label values', () => {
+    expect(escapeLabelValue('a"b\\c\nd')).toBe('a\\"b\\\\c\\nd');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from '@jest/globals';
-import { normalizePath, expandHome, convertToWindowsPath } from '../path-utils.js';
+import { normalizePath, expandHome, convertToWindowsPath, splitGlobPattern } from '../path-utils.js';
 
 describe('Path Utilities', () => {
   describe('convertToWindowsPath', () => {
@@ -172,4 +172,28 @@ describe('Path Utilities', () => {
       expect(expandHome('C:/test')).toBe('C:/test');
     });
   });
+
+  describe('splitGlobPattern', () => {
+    it('returns paths without glob characters unchanged', () => {
+      expect(splitGlobPattern('feedback/frontend.md')).toEqual({ base: 'feedback/frontend.md', pattern: '' });
+    });
+
+    it('splits relative globs at the first glob segment', () => {
+      expect(splitGlobPattern('feedback/*.md')).toEqual({ base: 'feedback', pattern: '*.md' });
+      expect(splitGlobPattern('docs/**/feedback-*.md')).toEqual({ base: 'docs', pattern: '**/feedback-*.md' });
+    });
+
+    it('uses the current directory for globs without a literal prefix', () => {
+      expect(splitGlobPattern('*.md')).toEqual({ base: '.', pattern: '*.md' });
+    });
+
+    it('keeps absolute bases', () => {
+      expect(splitGlobPattern('/home/user/feedback/{a,b}.md')).toEqual({ base: '/home/user/feedback', pattern: '{a,b}.md' });
+      expect(splitGlobPattern('/*.md')).toEqual({ base: '/', pattern: '*.md' });
+    });
+
+    it('accepts Windows separators', () => {
+      expect(splitGlobPattern('C:\\work\\feedback\\*.md')).toEqual({ base: 'C:/work/feedback', pattern: '*.md' });
+    });
+  });
 });
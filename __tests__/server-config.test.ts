@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  DEFAULT_SERVER_CONFIG,
+  fillPlaceholders,
+  formatKeywordList,
+  getPlaceholderValues,
+  loadServerConfig,
+  resolveToolName,
+} from '../server-config.js';
+import { DEFAULT_TOOL_DESCRIPTIONS, getToolDescriptions } from '../tool-descriptions.js';
+
+describe('Server Config', () => {
+  let testDir: string;
+  let configFile: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-test-'));
+    configFile = path.join(testDir, 'config.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('loadServerConfig', () => {
+    it('uses the defaults without a config file', async () => {
+      await expect(loadServerConfig(configFile)).resolves.toEqual(DEFAULT_SERVER_CONFIG);
+    });
+
+    it('fills in defaults for missing settings', async () => {
+      await fs.writeFile(configFile, JSON.stringify({ toolPrefix: 'tasksync_' }));
+
+      const config = await loadServerConfig(configFile);
+
+      expect(config.toolPrefix).toBe('tasksync_');
+      expect(config.terminationKeywords).toEqual(DEFAULT_SERVER_CONFIG.terminationKeywords);
+      expect(config.descriptions).toEqual({});
+      expect(config.feedbackImages).toEqual(DEFAULT_SERVER_CONFIG.feedbackImages);
+    });
+
+    it('fills in missing image limits', async () => {
+      await fs.writeFile(configFile, JSON.stringify({ feedbackImages: { maxCount: 2 } }));
+
+      const config = await loadServerConfig(configFile);
+
+      expect(config.feedbackImages).toEqual({ maxCount: 2, maxBytes: DEFAULT_SERVER_CONFIG.feedbackImages.maxBytes });
+    });
+
+    it('rejects unknown settings, unknown tools and invalid prefixes', async () => {
+      await fs.writeFile(configFile, JSON.stringify({ toolPrefx: 'x' }));
+      await expect(loadServerConfig(configFile)).rejects.toThrow('Invalid config file');
+
+      await fs.writeFile(configFile, JSON.stringify({ descriptions: { get_review: 'x' } }));
+      await expect(loadServerConfig(configFile)).rejects.toThrow('descriptions');
+
+      await fs.writeFile(configFile, JSON.stringify({ toolPrefix: 'task sync.' }));
+      await expect(loadServerConfig(configFile)).rejects.toThrow('toolPrefix');
+
+      await fs.writeFile(configFile, JSON.stringify({ terminationKeywords: [] }));
+      await expect(loadServerConfig(configFile)).rejects.toThrow('terminationKeywords');
+
+      await fs.writeFile(configFile, JSON.stringify({ feedbackImages: { maxCount: -1 } }));
+      await expect(loadServerConfig(configFile)).rejects.toThrow('feedbackImages.maxCount');
+    });
+  });
+
+  describe('resolveToolName', () => {
+    it('maps prefixed names back to the tool', () => {
+      const config = { ...DEFAULT_SERVER_CONFIG, toolPrefix: 'tasksync_' };
+
+      expect(resolveToolName('tasksync_get_feedback', config)).toBe('get_feedback');
+      expect(resolveToolName('get_feedback', config)).toBeNull();
+      expect(resolveToolName('tasksync_unknown', config)).toBeNull();
+    });
+
+    it('serves the plain names without a prefix', () => {
+      expect(resolveToolName('view_media', DEFAULT_SERVER_CONFIG)).toBe('view_media');
+    });
+  });
+
+  describe('placeholders', () => {
+    it('formats termination keywords', () => {
+      expect(formatKeywordList(['end'])).toBe('"end"');
+      expect(formatKeywordList(['end', 'stop', 'finished'])).toBe('"end", "stop" or "finished"');
+    });
+
+    it('fills in known placeholders only', () => {
+      const values = getPlaceholderValues({ ...DEFAULT_SERVER_CONFIG, toolPrefix: 'ts_' });
+
+      expect(fillPlaceholders('Call {{get_feedback}}, not {{other}}', values)).toBe('Call ts_get_feedback, not {{other}}');
+    });
+  });
+
+  describe('getToolDescriptions', () => {
+    it('builds the built-in descriptions from the config', () => {
+      const descriptions = getToolDescriptions({ ...DEFAULT_SERVER_CONFIG, toolPrefix: 'ts_', terminationKeywords: ['done'] });
+
+      expect(descriptions.get_feedback).toContain('Only when the user explicitly indicates "done" can you stop');
+      expect(descriptions.get_feedback).toContain('Use the ts_post_status tool');
+      expect(Object.values(descriptions).join('\n')).not.toContain('{{');
+    });
+
+    it('replaces the description of configured tools', () => {
+      const descriptions = getToolDescriptions({
+        ...DEFAULT_SERVER_CONFIG,
+        descriptions: { get_feedback: 'Check {{get_feedback}} when you finish a phase. Stop on {{terminationKeywords}}.' },
+      });
+
+      expect(descriptions.get_feedback).toBe('Check get_feedback when you finish a phase. Stop on "end", "stop", "finished" or "no more interaction needed".');
+      expect(descriptions.view_media).toBe(DEFAULT_TOOL_DESCRIPTIONS.view_media);
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Returns the HTML of the feedback dashboard served at /ui.
+ *
+ * The page itself holds no data: it polls /ui/state for the pending waits, the delivery
+ * history and the agent status posts of a session, and posts typed feedback to /feedback.
+ * When the server requires a bearer token, the page reads it from the `#token=` fragment of
+ * its URL or asks for it, and keeps it in session storage.
+ *
+ * @returns Self-contained HTML page
+ */
+export function renderDashboardPage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>TaskSync</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 960px; padding: 1rem; color: #222; }
+  h1 { font-size: 1.4rem; }
+  h2 { font-size: 1.1rem; margin-top: 1.5rem; border-bottom: 1px solid #ddd; }
+  textarea { width: 100%; min-height: 8rem; font: inherit; box-sizing: border-box; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { text-align: left; padding: 0.25rem 0.5rem; border-bottom: 1px solid #eee; vertical-align: top; }
+  pre { white-space: pre-wrap; margin: 0; font-size: 0.9rem; }
+  .muted { color: #777; }
+  .error { color: #b00020; }
+  .waiting { color: #0a7d32; font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>TaskSync</h1>
+<p>
+  <label>Session <input id="session" value="default" size="16"></label>
+  <span id="feedback-path" class="muted"></span>
+</p>
+
+<h2>Feedback</h2>
+<form id="feedback-form">
+  <textarea id="text" placeholder="Type feedback for the agent..."></textarea>
+  <p>
+    <label><input type="checkbox" id="replace"> Replace the feedback file instead of appending a new block</label>
+    <button type="submit">Send</button>
+    <span id="send-result" class="muted"></span>
+  </p>
+</form>
+
+<h2>Pending waits</h2>
+<table><thead><tr><th>Tool</th><th>Session</th><th>Files</th><th>Waiting</th></tr></thead><tbody id="pending"></tbody></table>
+
+<h2>Agent status</h2>
+<div id="status"></div>
+
+<h2>History</h2>
+<table><thead><tr><th>Delivered</th><th>File</th><th>Mode</th><th>Content</th></tr></thead><tbody id="history"></tbody></table>
+
+<p id="error" class="error"></p>
+
+<script>
+  const fragmentToken = new URLSearchParams(location.hash.slice(1)).get('token');
+  if (fragmentToken) {
+    sessionStorage.setItem('tasksync-token', fragmentToken);
+    history.replaceState(null, '', location.pathname + location.search);
+  }
+
+  async function api(url, options = {}) {
+    const token = sessionStorage.getItem('tasksync-token');
+    const headers = { 'Content-Type': 'application/json', ...(token ? { Authorization: 'Bearer ' + token } : {}) };
+    const response = await fetch(url, { ...options, headers });
+    if (response.status === 401) {
+      const entered = prompt('Bearer token for this TaskSync server');
+      if (entered) {
+        sessionStorage.setItem('tasksync-token', entered);
+        return api(url, options);
+      }
+    }
+    const body = await response.json();
+    if (!response.ok) throw new Error(body.error || response.statusText);
+    return body;
+  }
+
+  function cell(row, text, className) {
+    const td = row.insertCell();
+    const pre = document.createElement('pre');
+    pre.textContent = text;
+    if (className) td.className = className;
+    td.appendChild(pre);
+  }
+
+  function session() {
+    return document.getElementById('session').value.trim() || 'default';
+  }
+
+  function render(state) {
+    document.getElementById('feedback-path').textContent = state.feedbackPath;
+
+    const pending = document.getElementById('pending');
+    pending.replaceChildren();
+    for (const wait of state.pending) {
+      const row = pending.insertRow();
+      cell(row, wait.tool, 'waiting');
+      cell(row, wait.session);
+      cell(row, wait.paths.join('\\n'));
+      cell(row, Math.round(wait.elapsedMs / 1000) + 's of ' + Math.round(wait.timeoutMs / 1000) + 's');
+    }
+    if (state.pending.length === 0) cell(pending.insertRow(), 'The agent is not waiting for feedback.', 'muted');
+
+    const status = document.getElementById('status');
+    status.replaceChildren();
+    for (const post of state.status) {
+      const heading = document.createElement('p');
+      heading.className = 'muted';
+      heading.textContent = new Date(post.timestamp).toLocaleString();
+      const message = document.createElement('pre');
+      message.textContent = post.message;
+      status.append(heading, message);
+    }
+    if (state.status.length === 0) status.textContent = 'No status posts yet.';
+
+    const historyRows = document.getElementById('history');
+    historyRows.replaceChildren();
+    for (const entry of state.history.entries) {
+      const row = historyRows.insertRow();
+      cell(row, new Date(entry.timestamp).toLocaleString());
+      cell(row, entry.path);
+      cell(row, entry.mode);
+      cell(row, entry.content);
+    }
+  }
+
+  async function refresh() {
+    try {
+      render(await api('/ui/state?session=' + encodeURIComponent(session())));
+      document.getElementById('error').textContent = '';
+    } catch (error) {
+      document.getElementById('error').textContent = error.message;
+    }
+  }
+
+  document.getElementById('feedback-form').addEventListener('submit', async event => {
+    event.preventDefault();
+    const result = document.getElementById('send-result');
+    try {
+      const body = await api('/feedback', {
+        method: 'POST',
+        body: JSON.stringify({
+          session: session(),
+          text: document.getElementById('text').value,
+          mode: document.getElementById('replace').checked ? 'replace' : 'append',
+        }),
+      });
+      document.getElementById('text').value = '';
+      result.textContent = 'Sent, ' + body.resolved + ' waiting call(s) resolved.';
+      refresh();
+    } catch (error) {
+      result.textContent = error.message;
+    }
+  });
+
+  refresh();
+  setInterval(refresh, 2000);
+</script>
+</body>
+</html>
+`;
+}
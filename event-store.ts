@@ -0,0 +1,90 @@
+import type { EventStore, EventId, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+// Events kept per stream; older events are dropped and can no longer be replayed
+export const DEFAULT_MAX_EVENTS_PER_STREAM = 1000;
+// Serialized size of all events kept, across streams. Every POST opens a new stream and results
+// can carry base64 images, so the streams written to least recently are dropped beyond this
+export const DEFAULT_MAX_STORED_BYTES = 32 * 1024 * 1024;
+
+interface StoredEvent {
+  eventId: EventId;
+  message: JSONRPCMessage;
+  bytes: number;
+}
+
+/**
+ * Extracts the stream id from an event id of the form `<streamId>_<sequence>`.
+ * @param eventId - Event id issued by the store
+ * @returns Stream id, or null if the event id is malformed
+ */
+export function getStreamIdFromEventId(eventId: EventId): StreamId | null {
+  const separator = eventId.lastIndexOf('_');
+  return separator > 0 ? eventId.slice(0, separator) : null;
+}
+
+/**
+ * Creates an in-memory event store for Streamable HTTP resumability.
+ *
+ * Every message sent on a stream is recorded, so a client that lost its connection can
+ * reconnect with `Last-Event-ID` and receive what it missed, including the result of a
+ * get_feedback call that was still waiting when the connection dropped.
+ *
+ * Memory is bounded twice: by the number of events per stream and by the total size of the
+ * stored events. Over the total, the oldest events of the streams written to least recently are
+ * dropped first; the event just stored is always kept.
+ *
+ * @param maxEventsPerStream - Number of events kept per stream
+ * @param maxStoredBytes - Total serialized size of the events kept
+ * @returns Event store to pass to StreamableHTTPServerTransport
+ */
+export function createEventStore(
+  maxEventsPerStream: number = DEFAULT_MAX_EVENTS_PER_STREAM,
+  maxStoredBytes: number = DEFAULT_MAX_STORED_BYTES
+): EventStore {
+  // Ordered from the stream written to least recently to the most recent one
+  const streams = new Map<StreamId, StoredEvent[]>();
+  let storedBytes = 0;
+  let sequence = 0;
+
+  const dropOldest = (events: StoredEvent[], streamId: StreamId) => {
+    storedBytes -= events.shift()!.bytes;
+    events.length === 0 && streams.delete(streamId);
+  };
+
+  return {
+    async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+      const eventId = `${streamId}_${++sequence}`;
+      const events = streams.get(streamId) ?? [];
+      streams.delete(streamId);
+      streams.set(streamId, events);
+
+      const bytes = Buffer.byteLength(JSON.stringify(message));
+      events.push({ eventId, message, bytes });
+      storedBytes += bytes;
+      if (events.length > maxEventsPerStream) {
+        dropOldest(events, streamId);
+      }
+      while (storedBytes > maxStoredBytes) {
+        const [oldestId, oldest] = streams.entries().next().value!;
+        if (oldest[0].eventId === eventId) break;
+        dropOldest(oldest, oldestId);
+      }
+      return eventId;
+    },
+
+    async replayEventsAfter(lastEventId: EventId, { send }): Promise<StreamId> {
+      const streamId = getStreamIdFromEventId(lastEventId);
+      const events = streamId !== null ? streams.get(streamId) : undefined;
+      const index = events?.findIndex(event => event.eventId === lastEventId) ?? -1;
+      if (streamId === null || !events || index === -1) {
+        throw new Error(`Unknown or expired event id: ${lastEventId}`);
+      }
+
+      for (const event of events.slice(index + 1)) {
+        await send(event.eventId, event.message);
+      }
+      return streamId;
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import path from "path";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { FeedbackWaiter } from './feedback-wait.js';
+
+export const DEFAULT_CHANNEL = 'default';
+
+/**
+ * Feedback state of one agent session: its default feedback file, its waiting queue,
+ * what it has seen and been delivered, and the transports and servers notified of its changes.
+ */
+export interface FeedbackChannel {
+  name: string;
+  feedbackPath: string;
+  waitingForFileChange: FeedbackWaiter[];
+  // Content hash last seen by the watcher, per file; changes are detected by content, not mtime
+  lastFileHashByPath: Map<string, string>;
+  // Hashes of the message blocks already delivered to the agent, per feedback file
+  deliveredBlockHashesByPath: Map<string, Set<string>>;
+  // Snapshot of the content last delivered to the agent, per feedback file (used by delta mode)
+  lastDeliveredContentByPath: Map<string, string>;
+  // Time of the last delivery per feedback file, used to report the remaining idle budget
+  lastDeliveredAtByPath: Map<string, number>;
+  // Directory and glob get_feedback paths already expanded once (base directory and pattern)
+  knownGroups: Set<string>;
+  transports: Set<Transport>;
+  // Servers connected to the channel, with the resource URIs each client subscribed to
+  servers: Map<Server, Set<string>>;
+  // Set once the user ends the session with a termination keyword; cleared when a new client initializes
+  terminated: { keyword: string; at: string } | null;
+  initialized: boolean;
+}
+
+/**
+ * Checks that a session name is safe to embed in a file name.
+ * @param name - Requested session name
+ * @returns true if the name only uses letters, digits, `-` and `_`
+ */
+export function isValidSessionName(name: string): boolean {
+  return /^[A-Za-z0-9_-]{1,64}$/.test(name);
+}
+
+/**
+ * Returns the default feedback file of a channel.
+ * @param directory - Directory holding the feedback files
+ * @param name - Channel name
+ * @returns `feedback.md` for the default channel, `feedback.<name>.md` otherwise
+ */
+export function channelFeedbackPath(directory: string, name: string): string {
+  return path.join(directory, name === DEFAULT_CHANNEL ? 'feedback.md' : `feedback.${name}.md`);
+}
+
+/**
+ * Checks whether a file is named like a feedback file (`feedback.md`, `feedback.<name>.md`,
+ * `feedback-<name>.md`). Files in the `.tasksync` state directory never are.
+ * @param filePath - Path of the file
+ * @returns true for feedback file names
+ */
+export function isFeedbackFileName(filePath: string): boolean {
+  const segments = filePath.split(/[\\/]/);
+  return /^feedback([.-][^\\/]*)?\.md$/i.test(segments[segments.length - 1]) && !segments.includes('.tasksync');
+}
+
+/**
+ * Checks whether the server may write feedback, status posts or questions to a file: a file named
+ * like a feedback file, or the default feedback file of a channel. Being watched is not enough,
+ * since clients can watch any file in the allowed directories (get_feedback, resources/subscribe).
+ * @param filePath - Validated path of the file
+ * @param channels - Feedback channels of the server
+ * @returns true if the file is a feedback file
+ */
+export function isFeedbackTarget(filePath: string, channels: Iterable<FeedbackChannel>): boolean {
+  return isFeedbackFileName(filePath) || [...channels].some(channel => channel.feedbackPath === filePath);
+}
+
+/**
+ * Creates an empty feedback channel.
+ * @param name - Channel name
+ * @param directory - Directory holding the channel's feedback file
+ * @returns New channel
+ */
+export function createFeedbackChannel(name: string, directory: string): FeedbackChannel {
+  return {
+    name,
+    feedbackPath: channelFeedbackPath(directory, name),
+    waitingForFileChange: [],
+    lastFileHashByPath: new Map(),
+    deliveredBlockHashesByPath: new Map(),
+    lastDeliveredContentByPath: new Map(),
+    lastDeliveredAtByPath: new Map(),
+    knownGroups: new Set(),
+    transports: new Set(),
+    servers: new Map(),
+    terminated: null,
+    initialized: false,
+  };
+}
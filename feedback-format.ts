@@ -0,0 +1,338 @@
+import { createUnifiedDiff, hashContent, normalizeLineEndings } from './lib.js';
+
+export const DEFAULT_TERMINATION_KEYWORDS = ['end', 'stop', 'finished', 'no more interaction needed'];
+
+export const STATUS_MARKER = 'tasksync:status';
+export const QUESTION_MARKER = 'tasksync:question';
+
+export type FeedbackBlockKind = 'instruction' | 'comment' | 'stop' | 'status' | 'question';
+
+export type FrontMatterValue = string | string[];
+
+export interface FeedbackBlock {
+  index: number;
+  kind: FeedbackBlockKind;
+  text: string;
+  hash: string;
+  isNew: boolean;
+}
+
+export interface SelectedOption {
+  index: number;
+  option: string;
+}
+
+export interface StatusPost {
+  timestamp: string;
+  message: string;
+}
+
+export interface ParsedFeedback {
+  priority?: string;
+  targets: string[];
+  status?: string;
+  frontMatter: Record<string, FrontMatterValue>;
+  blocks: FeedbackBlock[];
+}
+
+const SEPARATOR = /^-{3,}\s*$/;
+const FRONT_MATTER_KEY = /^([A-Za-z_][\w-]*)\s*:\s*(.*)$/;
+const LIST_ITEM = /^\s*-\s+(.*)$/;
+const CHECKBOX = /^\s*[-*]\s+\[([ xX])\]\s*(.*)$/;
+
+/**
+ * Strips matching quotes around a front-matter scalar.
+ * @param value - Raw scalar text
+ * @returns Unquoted value
+ */
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return /^(["']).*\1$/.test(trimmed) ? trimmed.slice(1, -1) : trimmed;
+}
+
+/**
+ * Parses the small YAML subset used in feedback front-matter: `key: value`,
+ * inline lists (`key: [a, b]`) and block lists (`key:` followed by `- item` lines).
+ * @param lines - Lines between the opening and closing `---`
+ * @returns Parsed key/value pairs, or null if the lines are not front-matter
+ */
+function parseFrontMatter(lines: string[]): Record<string, FrontMatterValue> | null {
+  const result: Record<string, FrontMatterValue> = {};
+  let listKey: string | null = null;
+
+  for (const line of lines) {
+    if (!line.trim() || line.trim().startsWith('#')) continue;
+
+    const item = line.match(LIST_ITEM);
+    if (item && listKey) {
+      (result[listKey] as string[]).push(unquote(item[1]));
+      continue;
+    }
+
+    const entry = line.match(FRONT_MATTER_KEY);
+    if (!entry) return null;
+
+    const [, key, rawValue] = entry;
+    const value = rawValue.trim();
+    listKey = null;
+
+    if (!value) {
+      result[key] = [];
+      listKey = key;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      result[key] = value.slice(1, -1).split(',').map(unquote).filter(Boolean);
+    } else {
+      result[key] = unquote(value);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Splits feedback content into its optional front-matter and body.
+ * @param lines - Lines of the feedback file
+ * @returns Parsed front-matter (null when absent) and remaining body lines
+ */
+function splitFrontMatter(lines: string[]): { frontMatter: Record<string, FrontMatterValue> | null; body: string[] } {
+  if (lines.length === 0 || !SEPARATOR.test(lines[0])) return { frontMatter: null, body: lines };
+
+  const closing = lines.findIndex((line, i) => i > 0 && SEPARATOR.test(line));
+  if (closing === -1) return { frontMatter: null, body: lines };
+
+  const frontMatter = parseFrontMatter(lines.slice(1, closing));
+  return frontMatter ? { frontMatter, body: lines.slice(closing + 1) } : { frontMatter: null, body: lines };
+}
+
+/**
+ * Normalizes text for keyword comparison: lowercase, collapsed whitespace, no trailing punctuation.
+ * @param text - Text to normalize
+ * @returns Normalized text
+ */
+export function normalizeKeywordText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').replace(/[.!。]+$/, '').trim();
+}
+
+/**
+ * Classifies a message block as an agent status post or question, an HTML comment, a stop command or an instruction.
+ * @param text - Trimmed block text
+ * @param terminationKeywords - Keywords that mark a block as a stop command
+ * @returns Block kind
+ */
+function classifyBlock(text: string, terminationKeywords: string[]): FeedbackBlockKind {
+  if (text.startsWith(`<!-- ${STATUS_MARKER}`)) return 'status';
+  if (text.startsWith(`<!-- ${QUESTION_MARKER}`)) return 'question';
+  if (/^<!--[\s\S]*-->$/.test(text)) return 'comment';
+  const normalized = normalizeKeywordText(text);
+  return terminationKeywords.some(keyword => normalizeKeywordText(keyword) === normalized) ? 'stop' : 'instruction';
+}
+
+/**
+ * Returns the value of a front-matter key as a list.
+ * @param value - Front-matter value
+ * @returns Value wrapped in an array, or an empty array when missing
+ */
+function asList(value: FrontMatterValue | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : value.split(',').map(v => v.trim()).filter(Boolean);
+}
+
+/**
+ * Parses a feedback file into front-matter and `---`-separated message blocks.
+ *
+ * The front-matter is an optional leading `---` fenced section holding `priority`,
+ * `targets` (alias `files`) and `status`. Each following block is classified as an
+ * instruction, a comment, a stop command, or an agent status post or question, and
+ * flagged as new when its hash is not in the set of previously delivered block hashes.
+ *
+ * @param content - Raw feedback file content
+ * @param previousHashes - Hashes of blocks already delivered for this file
+ * @param terminationKeywords - Keywords that mark a block as a stop command
+ * @returns Parsed feedback
+ */
+export function parseFeedback(
+  content: string,
+  previousHashes: ReadonlySet<string> = new Set(),
+  terminationKeywords: string[] = DEFAULT_TERMINATION_KEYWORDS
+): ParsedFeedback {
+  const lines = normalizeLineEndings(content).split('\n');
+  const { frontMatter, body } = splitFrontMatter(lines);
+
+  const rawBlocks: string[][] = [[]];
+  for (const line of body) {
+    SEPARATOR.test(line) ? rawBlocks.push([]) : rawBlocks[rawBlocks.length - 1].push(line);
+  }
+
+  const blocks = rawBlocks
+    .map(blockLines => blockLines.join('\n').trim())
+    .filter(Boolean)
+    .map((text, index) => {
+      const hash = hashContent(text);
+      return {
+        index,
+        kind: classifyBlock(text, terminationKeywords),
+        text,
+        hash,
+        isNew: !previousHashes.has(hash),
+      };
+    });
+
+  const meta = frontMatter ?? {};
+  const priority = meta.priority;
+  const status = meta.status;
+  return {
+    priority: typeof priority === 'string' ? priority : undefined,
+    targets: asList(meta.targets ?? meta.files),
+    status: typeof status === 'string' ? status : undefined,
+    frontMatter: meta,
+    blocks,
+  };
+}
+
+/**
+ * Finds a stop command that ends the feedback session.
+ *
+ * Only the latest user block counts (status posts, questions and comments are skipped), and
+ * only if it was not delivered before: a stop followed by new instructions does not end the
+ * session, and a stop that was already acted on is not reported again.
+ *
+ * @param blocks - Parsed message blocks, in file order
+ * @returns The stop block, or null if the session goes on
+ */
+export function findTermination(blocks: FeedbackBlock[]): FeedbackBlock | null {
+  const userBlocks = blocks.filter(block => block.kind === 'instruction' || block.kind === 'stop');
+  const latest = userBlocks[userBlocks.length - 1];
+  return latest && latest.kind === 'stop' && latest.isNew ? latest : null;
+}
+
+/**
+ * Formats an agent status post as a message block that can be appended to a feedback or status file.
+ * @param message - Status text written by the agent
+ * @param timestamp - ISO timestamp of the post
+ * @returns Block text, starting with a `---` separator
+ */
+export function formatStatusSection(message: string, timestamp: string): string {
+  return `\n---\n<!-- ${STATUS_MARKER} ${timestamp} -->\n**Agent status** (${timestamp})\n\n${message.trim()}\n`;
+}
+
+/**
+ * Extracts the agent status posts written by formatStatusSection from a feedback or status file.
+ * @param content - File content
+ * @returns Status posts in file order
+ */
+export function parseStatusPosts(content: string): StatusPost[] {
+  return parseFeedback(content).blocks
+    .filter(block => block.kind === 'status')
+    .map(block => {
+      const lines = block.text.split('\n');
+      const timestamp = lines[0].slice(`<!-- ${STATUS_MARKER}`.length).replace(/-->\s*$/, '').trim();
+      // Skip the marker and the "**Agent status** (timestamp)" heading
+      const message = lines.slice(1).join('\n').replace(/^\*\*Agent status\*\*.*\n?/, '').trim();
+      return { timestamp, message };
+    });
+}
+
+// Markdown image: ![alt](path), ![alt](<path with spaces>) or ![alt](path "title")
+const IMAGE_REFERENCE = /!\[[^\]]*\]\(\s*(?:<([^>]+)>|([^)\s]+))(?:\s+["'][^"']*["'])?\s*\)/g;
+// URLs (http:, data:, ...) are not local files; single letters are Windows drive letters
+const URL_SCHEME = /^[a-z][a-z0-9+.-]+:/i;
+
+/**
+ * Finds the local images referenced with markdown image syntax, such as `![bug](./screenshots/bug.png)`.
+ * @param content - Markdown text
+ * @returns Referenced paths in order of appearance, without duplicates, URL-decoded; URLs are skipped
+ */
+export function findImageReferences(content: string): string[] {
+  const references = new Set<string>();
+  for (const match of content.matchAll(IMAGE_REFERENCE)) {
+    const reference = (match[1] ?? match[2]).trim();
+    if (URL_SCHEME.test(reference)) continue;
+    try {
+      references.add(decodeURI(reference));
+    } catch {
+      references.add(reference);
+    }
+  }
+  return [...references];
+}
+
+/**
+ * Finds the local images referenced by user blocks not delivered before, so an image is attached
+ * once rather than on every delivery of the file. Status posts and questions are skipped.
+ * @param blocks - Parsed message blocks
+ * @returns Referenced paths, as findImageReferences returns them
+ */
+export function findNewImageReferences(blocks: FeedbackBlock[]): string[] {
+  const newText = blocks
+    .filter(block => block.isNew && block.kind !== 'status' && block.kind !== 'question')
+    .map(block => block.text)
+    .join('\n');
+  return findImageReferences(newText);
+}
+
+/**
+ * Formats a multiple-choice question as a message block with a markdown checkbox per option.
+ * @param id - Identifier used to find the question again once answered
+ * @param question - Question text
+ * @param options - Options the user can tick
+ * @returns Block text, starting with a `---` separator
+ */
+export function formatQuestionSection(id: string, question: string, options: string[]): string {
+  const checkboxes = options.map(option => `- [ ] ${option.trim()}`).join('\n');
+  return `\n---\n<!-- ${QUESTION_MARKER} ${id} -->\n**Question:** ${question.trim()}\n\n${checkboxes}\n`;
+}
+
+/**
+ * Finds the option the user ticked in a question written by formatQuestionSection.
+ * @param content - Current feedback file content
+ * @param id - Question identifier
+ * @returns First ticked option, or null if the question is missing or unanswered
+ */
+export function findSelectedOption(content: string, id: string): SelectedOption | null {
+  const lines = normalizeLineEndings(content).split('\n');
+  const start = lines.findIndex(line => line.trim() === `<!-- ${QUESTION_MARKER} ${id} -->`);
+  if (start === -1) return null;
+
+  let index = 0;
+  for (const line of lines.slice(start + 1)) {
+    if (SEPARATOR.test(line)) break;
+    const checkbox = line.match(CHECKBOX);
+    if (!checkbox) continue;
+    if (checkbox[1] !== ' ') return { index, option: checkbox[2].trim() };
+    index++;
+  }
+  return null;
+}
+
+export type FeedbackDeltaType = 'full' | 'unchanged' | 'append' | 'diff';
+
+export interface FeedbackDelta {
+  type: FeedbackDeltaType;
+  text: string;
+}
+
+/**
+ * Computes what changed in a feedback file since the content last delivered to the agent.
+ *
+ * Appended text is returned as-is; any other edit is returned as a unified diff.
+ * Without a previous snapshot the whole content is returned.
+ *
+ * @param previous - Content delivered by the previous call, if any
+ * @param current - Current file content
+ * @param filepath - Path used in the diff header
+ * @returns Delta type and text to deliver
+ */
+export function computeFeedbackDelta(previous: string | undefined, current: string, filepath: string = 'feedback.md'): FeedbackDelta {
+  if (previous === undefined) return { type: 'full', text: current };
+
+  const normalizedPrevious = normalizeLineEndings(previous);
+  const normalizedCurrent = normalizeLineEndings(current);
+
+  if (normalizedPrevious === normalizedCurrent) return { type: 'unchanged', text: '' };
+
+  if (normalizedCurrent.startsWith(normalizedPrevious)) {
+    return { type: 'append', text: normalizedCurrent.slice(normalizedPrevious.length).replace(/^\n+/, '') };
+  }
+
+  return { type: 'diff', text: createUnifiedDiff(normalizedPrevious, normalizedCurrent, filepath) };
+}
@@ -0,0 +1,155 @@
+import fs from "fs/promises";
+import path from "path";
+import { validatePath } from './lib.js';
+import { isPathWithinAllowedDirectories } from './path-validation.js';
+
+export const HISTORY_DIR = '.tasksync';
+export const HISTORY_FILE = 'history.jsonl';
+// Once the log would grow past this size it is moved aside to history.1.jsonl, replacing the
+// previous one, so at most two logs' worth of history is kept
+export const MAX_HISTORY_BYTES = 5 * 1024 * 1024;
+
+export interface FeedbackHistoryEntry {
+  timestamp: string;
+  path: string;
+  hash: string;
+  sessionId: string;
+  mode: string;
+  content: string;
+}
+
+export interface FeedbackHistoryQuery {
+  path?: string;
+  sessionId?: string;
+  since?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface FeedbackHistoryPage {
+  total: number;
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+  entries: FeedbackHistoryEntry[];
+}
+
+// Appends check the log size before writing, so they are serialized to rotate only once
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Resolves the TaskSync data directory for a feedback file.
+ * @param feedbackPath - Absolute path of the feedback file
+ * @param allowedDirectories - Allowed directories of the server
+ * @returns Path of `.tasksync` in the allowed directory containing the file,
+ *          falling back to the first allowed directory
+ */
+export function getStateDirectory(feedbackPath: string, allowedDirectories: string[]): string {
+  const root = allowedDirectories.find(dir => isPathWithinAllowedDirectories(feedbackPath, [dir])) ?? allowedDirectories[0];
+  return path.join(root, HISTORY_DIR);
+}
+
+/**
+ * Resolves the history log location for a feedback file.
+ * @param feedbackPath - Absolute path of the delivered feedback file
+ * @param allowedDirectories - Allowed directories of the server
+ * @returns Path of `.tasksync/history.jsonl` in the allowed directory containing the file,
+ *          falling back to the first allowed directory
+ */
+export function getHistoryPath(feedbackPath: string, allowedDirectories: string[]): string {
+  return path.join(getStateDirectory(feedbackPath, allowedDirectories), HISTORY_FILE);
+}
+
+/**
+ * Resolves where a history log is moved when it is rotated.
+ * @param historyPath - Path of the history log
+ * @returns `history.1.jsonl` next to the log
+ */
+export function getRotatedHistoryPath(historyPath: string): string {
+  const extension = path.extname(historyPath);
+  return `${historyPath.slice(0, historyPath.length - extension.length)}.1${extension}`;
+}
+
+// Size of a file in bytes, 0 if it does not exist
+async function fileSize(filePath: string): Promise<number> {
+  try {
+    return (await fs.stat(filePath)).size;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+    throw error;
+  }
+}
+
+/**
+ * Reads and parses all entries of a history log, skipping malformed lines.
+ * @param historyPath - Path of the history log
+ * @returns Entries in chronological order, empty if the log does not exist
+ */
+async function readEntries(historyPath: string): Promise<FeedbackHistoryEntry[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(historyPath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  return raw.split('\n').filter(Boolean).flatMap(line => {
+    try {
+      return [JSON.parse(line) as FeedbackHistoryEntry];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Appends an entry to the history log, creating the log directory if needed. A log that would
+ * grow past maxBytes is first rotated to history.1.jsonl. The log path is validated against the
+ * allowed directories before writing.
+ * @param historyPath - Path of the history log
+ * @param entry - Entry to append
+ * @param maxBytes - Log size at which the log is rotated
+ */
+export async function appendHistoryEntry(historyPath: string, entry: FeedbackHistoryEntry, maxBytes: number = MAX_HISTORY_BYTES): Promise<void> {
+  const write = pendingWrite.then(async () => {
+    await fs.mkdir(path.dirname(historyPath), { recursive: true });
+    const validPath = await validatePath(historyPath);
+    const line = `${JSON.stringify(entry)}\n`;
+    const size = await fileSize(validPath);
+    if (size > 0 && size + Buffer.byteLength(line) > maxBytes) {
+      await fs.rename(validPath, await validatePath(getRotatedHistoryPath(validPath)));
+    }
+    await fs.appendFile(validPath, line, 'utf-8');
+  });
+  pendingWrite = write.catch(() => {});
+  return write;
+}
+
+/**
+ * Reads a page of history entries, newest first, optionally filtered. Entries of the rotated log
+ * are included.
+ * @param historyPath - Path of the history log
+ * @param query - Filters (path, session id, minimum timestamp) and paging options
+ * @returns Matching entries with paging information
+ */
+export async function readHistory(historyPath: string, query: FeedbackHistoryQuery = {}): Promise<FeedbackHistoryPage> {
+  const { offset = 0, limit = 20 } = query;
+  const since = query.since ? Date.parse(query.since) : NaN;
+  if (query.since && isNaN(since)) throw new Error(`Invalid since timestamp: ${query.since}`);
+
+  const entries = [...await readEntries(getRotatedHistoryPath(historyPath)), ...await readEntries(historyPath)];
+  const matches = entries
+    .filter(entry => !query.path || entry.path === query.path)
+    .filter(entry => !query.sessionId || entry.sessionId === query.sessionId)
+    .filter(entry => isNaN(since) || Date.parse(entry.timestamp) >= since)
+    .reverse();
+
+  return {
+    total: matches.length,
+    offset,
+    limit,
+    hasMore: offset + limit < matches.length,
+    entries: matches.slice(offset, offset + limit),
+  };
+}
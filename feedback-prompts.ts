@@ -0,0 +1,103 @@
+import fs from "fs/promises";
+import { z } from "zod";
+import { fillPlaceholders } from './server-config.js';
+
+export const PROMPTS_FILE = 'prompts.json';
+
+export interface FeedbackPrompt {
+  name: string;
+  description: string;
+  // Prompt text; {{feedbackPath}}, {{terminationKeywords}} and tool names such as {{get_feedback}} are filled in
+  text: string;
+}
+
+const PromptFileSchema = z.object({
+  prompts: z.array(z.object({
+    name: z.string().regex(/^[A-Za-z0-9_-]+$/, "Prompt names may only use letters, digits, '-' and '_'"),
+    description: z.string().default(''),
+    text: z.string().min(1),
+  })),
+});
+
+export const DEFAULT_PROMPTS: FeedbackPrompt[] = [
+  {
+    name: 'strict-loop',
+    description: 'Keep calling {{get_feedback}} after every step until the user explicitly ends the session',
+    text:
+      'Use the TaskSync `{{get_feedback}}` tool with the feedback file {{feedbackPath}}.\n\n' +
+      'USAGE RULES:\n' +
+      '1. During any process, task, or conversation, whether asking, replying, or completing phased tasks, you must call `{{get_feedback}}` to request feedback.\n' +
+      '2. Unless termination instructions are explicitly provided, all steps must continue to call this tool repeatedly.\n' +
+      '3. Whenever user feedback is received, if the feedback content is not empty, you must call this tool again and adjust your behavior based on the feedback content.\n' +
+      '4. If the tool call fails or returns no feedback, call it again, unless explicit termination instructions are given.\n' +
+      '5. Only when the user explicitly indicates {{terminationKeywords}} can you stop calling this tool, and at that point the process is considered complete.\n' +
+      '6. Before each call, summarize what you have done with the `{{post_status}}` tool so the user can give meaningful feedback.\n\n' +
+      'Do not end the conversation, give a final response, or act as if the work is finished without explicit user termination.',
+  },
+  {
+    name: 'ask-before-finishing',
+    description: 'Work autonomously, but ask for feedback before declaring the task finished',
+    text:
+      'Work on the task autonomously. You do not need to ask for feedback after every step.\n\n' +
+      'Before you consider the task finished, and whenever you are blocked on a decision only the user can make:\n' +
+      '1. Summarize what you have done and what is left with the `{{post_status}}` tool.\n' +
+      '2. Call the TaskSync `{{get_feedback}}` tool with the feedback file {{feedbackPath}} and wait for the answer.\n' +
+      '3. Apply the feedback, then ask again before finishing.\n\n' +
+      'Only finish once the user confirms through the feedback file, for example with {{terminationKeywords}}.',
+  },
+  {
+    name: 'checkpoint-only',
+    description: 'Check for feedback only at planned checkpoints, without blocking between them',
+    text:
+      'Check the TaskSync feedback file {{feedbackPath}} only at these checkpoints:\n' +
+      '- after you have a plan, before changing any code\n' +
+      '- after each completed phase of the plan\n' +
+      '- before you report the task as done\n\n' +
+      'At each checkpoint, post a short summary with the `{{post_status}}` tool, then call `{{get_feedback}}`. ' +
+      'If it returns new instructions, follow them before continuing. ' +
+      'If it returns no new feedback, continue with the plan instead of waiting again.',
+  },
+];
+
+/**
+ * Loads the prompts served over MCP: the built-in variants, overridden or extended by the
+ * prompts of a team prompt file. A prompt in the file replaces the built-in prompt of the same name.
+ * @param promptFile - Path of the prompt file (`.tasksync/prompts.json`), already validated
+ * @returns Prompts in list order: built-in prompts first, then new prompts from the file
+ * @throws Error if the prompt file exists but is not valid
+ */
+export async function loadPrompts(promptFile: string): Promise<FeedbackPrompt[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(promptFile, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return DEFAULT_PROMPTS;
+    throw error;
+  }
+
+  let parsed;
+  try {
+    parsed = PromptFileSchema.safeParse(JSON.parse(raw));
+  } catch (error) {
+    throw new Error(`Invalid prompt file ${promptFile}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed.success) {
+    throw new Error(`Invalid prompt file ${promptFile}: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')}`);
+  }
+
+  const prompts = new Map(DEFAULT_PROMPTS.map(prompt => [prompt.name, prompt]));
+  for (const prompt of parsed.data.prompts) {
+    prompts.set(prompt.name, prompt);
+  }
+  return [...prompts.values()];
+}
+
+/**
+ * Fills in the placeholders of a prompt.
+ * @param prompt - Prompt to render
+ * @param values - Placeholder values by name
+ * @returns Prompt text with every known `{{name}}` placeholder replaced
+ */
+export function renderPrompt(prompt: FeedbackPrompt, values: Record<string, string>): string {
+  return fillPlaceholders(prompt.text, values);
+}
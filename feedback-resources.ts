@@ -0,0 +1,33 @@
+import path from "path";
+
+export const FEEDBACK_URI_PREFIX = 'tasksync://feedback/';
+
+/**
+ * Returns the MCP resource URI of a feedback file.
+ * Files below the base directory are addressed by their relative path, others by their absolute path.
+ * @param filePath - Absolute path of the feedback file
+ * @param baseDir - Directory relative paths are resolved against (the working directory)
+ * @returns URI of the form `tasksync://feedback/<path>`
+ */
+export function feedbackResourceUri(filePath: string, baseDir: string): string {
+  const relative = path.relative(baseDir, filePath);
+  const isInside = relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+  const resourcePath = (isInside ? relative : filePath).split(path.sep).join('/');
+  return FEEDBACK_URI_PREFIX + resourcePath.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Returns the file a feedback resource URI refers to. The result still has to be checked
+ * against the allowed directories.
+ * @param uri - Resource URI
+ * @param baseDir - Directory relative paths are resolved against (the working directory)
+ * @returns Absolute file path
+ * @throws Error if the URI is not a feedback resource URI
+ */
+export function feedbackResourcePath(uri: string, baseDir: string): string {
+  if (!uri.startsWith(FEEDBACK_URI_PREFIX) || uri.length === FEEDBACK_URI_PREFIX.length) {
+    throw new Error(`Not a feedback resource: ${uri}`);
+  }
+  const resourcePath = uri.slice(FEEDBACK_URI_PREFIX.length).split('/').map(decodeURIComponent).join('/');
+  return path.resolve(baseDir, resourcePath);
+}
@@ -0,0 +1,55 @@
+// What get_feedback returns when no feedback arrives before the timeout:
+// error (reject), empty (empty text) or heartbeat ("no new feedback, call again")
+export const TIMEOUT_MODES = ['error', 'empty', 'heartbeat'] as const;
+export type TimeoutMode = typeof TIMEOUT_MODES[number];
+
+export interface TimeoutPolicy {
+  mode: TimeoutMode;
+  // How long the feedback file may stay idle before timeouts are reported as errors; null for no limit
+  maxIdleMs: number | null;
+}
+
+export interface FeedbackTimeout {
+  // Displayed path of the file or group that was waited on
+  path: string;
+  timeoutMs: number;
+  elapsedMs: number;
+  // Time since feedback was last delivered (or the server started)
+  idleMs: number;
+  // Name of the get_feedback tool, with the configured prefix
+  getFeedbackTool: string;
+}
+
+/**
+ * Builds the get_feedback result for a wait that ended without feedback, according to the
+ * timeout mode. Once the max-idle budget is spent the timeout is always reported as an error,
+ * so an agent polling with heartbeats eventually stops.
+ * @param policy - Timeout mode and max-idle budget of the server
+ * @param timeout - The wait that timed out
+ * @returns Tool result: empty text or a heartbeat, with the wait and the remaining budget
+ * @throws Error in error mode, or when the max-idle budget is spent
+ */
+export function buildTimeoutResult(policy: TimeoutPolicy, timeout: FeedbackTimeout) {
+  const remainingMs = policy.maxIdleMs === null ? null : Math.max(0, policy.maxIdleMs - timeout.idleMs);
+
+  if (policy.mode === 'error' || remainingMs === 0) {
+    throw new Error(`Timeout waiting for file change (${timeout.timeoutMs}ms)`);
+  }
+
+  const structuredContent = {
+    status: 'no_feedback',
+    path: timeout.path,
+    elapsedMs: timeout.elapsedMs,
+    timeoutMs: timeout.timeoutMs,
+    idleMs: timeout.idleMs,
+    remainingMs,
+  };
+  const text = policy.mode === 'empty'
+    ? ''
+    : `No new feedback after ${Math.round(timeout.elapsedMs / 1000)}s. Call ${timeout.getFeedbackTool} again to keep waiting.`;
+
+  return {
+    content: [{ type: "text" as const, text }],
+    structuredContent,
+  };
+}
@@ -0,0 +1,114 @@
+export interface FeedbackWaiter {
+  paths: string[];
+  // Tool that is blocked, when it started waiting and for how long it may wait
+  tool: string;
+  startedAt: number;
+  timeoutMs: number;
+  resolve: (content: string, filePath: string) => void;
+  reject: (error: Error) => void;
+  cancel: () => void;
+}
+
+export type WaitResult =
+  | { status: 'changed'; content: string; path: string }
+  | { status: 'timeout' }
+  | { status: 'cancelled' };
+
+/**
+ * Queues a waiter for the next change of a file, or of any file in a group.
+ *
+ * The waiter leaves the queue and its timer is cleared when the file changes, when the
+ * timeout elapses, or when the signal aborts (the client cancelled the request), so
+ * cancelled calls never linger in the queue.
+ *
+ * @param queue - Waiting queue shared with resolveWaiters
+ * @param filePaths - Path of the watched file, or paths of a group of files
+ * @param timeoutMs - Maximum time to wait
+ * @param signal - Abort signal of the request, if any
+ * @param tool - Name of the waiting tool, reported when listing pending waits
+ * @returns The new content and the path of the file that changed first, or the reason the wait ended without it
+ */
+export function waitForFileChange(
+  queue: FeedbackWaiter[],
+  filePaths: string | string[],
+  timeoutMs: number,
+  signal?: AbortSignal,
+  tool: string = 'get_feedback'
+): Promise<WaitResult> {
+  if (signal?.aborted) return Promise.resolve({ status: 'cancelled' });
+  console.error(`check_review: Current waiting queue size: ${queue.length}`);
+
+  return new Promise<WaitResult>((resolve, reject) => {
+    const settle = () => {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+      const index = queue.indexOf(waiter);
+      if (index !== -1) {
+        queue.splice(index, 1);
+      }
+    };
+
+    const onAbort = () => {
+      settle();
+      console.error(`check_review: Wait cancelled by client, queue size: ${queue.length}`);
+      resolve({ status: 'cancelled' });
+    };
+
+    const timeout = setTimeout(() => {
+      settle();
+      console.error(`check_review: Timeout reached after ${timeoutMs}ms`);
+      resolve({ status: 'timeout' });
+    }, timeoutMs);
+
+    const waiter: FeedbackWaiter = {
+      paths: Array.isArray(filePaths) ? filePaths : [filePaths],
+      tool,
+      startedAt: Date.now(),
+      timeoutMs,
+      resolve: (content: string, filePath: string) => {
+        console.error("check_review: Promise resolved with content");
+        settle();
+        resolve({ status: 'changed', content, path: filePath });
+      },
+      reject: (error: Error) => {
+        console.error(`check_review: Promise rejected with error: ${error.message}`);
+        settle();
+        reject(error);
+      },
+      cancel: () => {
+        settle();
+        console.error(`check_review: Wait cancelled by server, queue size: ${queue.length}`);
+        resolve({ status: 'cancelled' });
+      }
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    console.error("check_review: Adding to waiting queue");
+    queue.push(waiter);
+    console.error(`check_review: Updated waiting queue size: ${queue.length}`);
+  });
+}
+
+/**
+ * Resolves every waiter watching a file with its new content.
+ * @param queue - Waiting queue
+ * @param filePath - Path of the changed file
+ * @param content - New file content
+ * @returns Number of waiters resolved
+ */
+export function resolveWaiters(queue: FeedbackWaiter[], filePath: string, content: string): number {
+  const matching = queue.filter(waiter => waiter.paths.includes(filePath));
+  matching.forEach(waiter => waiter.resolve(content, filePath));
+  return matching.length;
+}
+
+/**
+ * Ends every wait in a queue as cancelled, e.g. when the session it belongs to has ended.
+ * @param queue - Waiting queue
+ * @returns Number of waiters cancelled
+ */
+export function cancelWaiters(queue: FeedbackWaiter[]): number {
+  const waiters = [...queue];
+  waiters.forEach(waiter => waiter.cancel());
+  return waiters.length;
+}
@@ -0,0 +1,75 @@
+import { watch } from "fs";
+import path from "path";
+
+export interface FileWatcherOptions {
+  debounceMs: number;
+  onError?: (error: Error) => void;
+}
+
+export interface FileWatcherHandle {
+  close(): void;
+}
+
+/**
+ * Watches a single file for changes, surviving editors that save by writing a temporary
+ * file and renaming it over the original.
+ *
+ * `fs.watch` on the file itself stops reporting once the inode is replaced, so the parent
+ * directory is watched instead and events are filtered by file name. Bursts of events
+ * (write then rename, or several writes per save) are merged into one callback after
+ * the debounce window.
+ *
+ * @param filePath - Absolute path of the file to watch
+ * @param onChange - Called once per debounced burst of events
+ * @param options - Debounce window and error handler
+ * @returns Handle to stop watching
+ */
+export function watchFile(filePath: string, onChange: () => void, options: FileWatcherOptions): FileWatcherHandle {
+  const fileName = path.basename(filePath);
+  let timer: NodeJS.Timeout | undefined;
+
+  const watcher = watch(path.dirname(filePath), (_eventType, changedName) => {
+    // Some platforms omit the file name; treat those events as possible changes
+    if (changedName && changedName.toString() !== fileName) return;
+
+    clearTimeout(timer);
+    timer = setTimeout(onChange, options.debounceMs);
+  });
+
+  watcher.on('error', error => options.onError?.(error));
+
+  return {
+    close() {
+      clearTimeout(timer);
+      watcher.close();
+    },
+  };
+}
+
+/**
+ * Watches a directory for files being created, renamed, changed or removed in it, e.g. to pick
+ * up new files matching a glob. Bursts of events are merged into one callback after the
+ * debounce window.
+ *
+ * @param dirPath - Absolute path of the directory to watch
+ * @param onChange - Called once per debounced burst of events
+ * @param options - Debounce window, error handler and whether to watch subdirectories too
+ * @returns Handle to stop watching
+ */
+export function watchDirectory(dirPath: string, onChange: () => void, options: FileWatcherOptions & { recursive?: boolean }): FileWatcherHandle {
+  let timer: NodeJS.Timeout | undefined;
+
+  const watcher = watch(dirPath, { recursive: options.recursive ?? false }, () => {
+    clearTimeout(timer);
+    timer = setTimeout(onChange, options.debounceMs);
+  });
+
+  watcher.on('error', error => options.onError?.(error));
+
+  return {
+    close() {
+      clearTimeout(timer);
+      watcher.close();
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import fs from "fs/promises";
+import { createHash, timingSafeEqual } from 'crypto';
+import { expandHome } from './path-utils.js';
+
+// Environment variable holding the bearer token of the HTTP server
+export const AUTH_TOKEN_ENV = 'TASKSYNC_AUTH_TOKEN';
+export const DEFAULT_HOST = '127.0.0.1';
+
+/**
+ * Loads the bearer token required by the HTTP server.
+ * A token file takes precedence over the environment variable.
+ * @param env - Process environment
+ * @param tokenFile - Path of a file containing the token, if any
+ * @returns The token, or null if authentication is disabled
+ * @throws Error if the token file cannot be read or is empty
+ */
+export async function loadAuthToken(env: NodeJS.ProcessEnv, tokenFile?: string): Promise<string | null> {
+  if (tokenFile) {
+    const token = (await fs.readFile(expandHome(tokenFile), 'utf-8')).trim();
+    if (!token) {
+      throw new Error(`Token file is empty: ${tokenFile}`);
+    }
+    return token;
+  }
+  const token = env[AUTH_TOKEN_ENV]?.trim();
+  return token ? token : null;
+}
+
+/**
+ * Checks an Authorization header against the expected bearer token.
+ * Both values are hashed before a constant-time comparison, so neither the content
+ * nor the length of the token leaks through response timing.
+ * @param header - Value of the Authorization header
+ * @param token - Expected token
+ * @returns true if the header carries the token
+ */
+export function isAuthorized(header: string | undefined, token: string): boolean {
+  const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+  if (!match) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1]), digest(token));
+}
+
+/**
+ * Parses a comma-separated list of allowed CORS origins.
+ * @param value - Value of --cors-origin
+ * @returns Allowed origins without trailing slashes
+ */
+export function parseOriginList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value.split(',').map(origin => origin.trim().replace(/\/+$/, '')).filter(Boolean);
+}
+
+/**
+ * Checks a request origin against the CORS allowlist. `*` allows every origin.
+ * @param origin - Value of the Origin header
+ * @param allowedOrigins - Allowed origins
+ * @returns true if cross-origin requests from this origin are allowed
+ */
+export function isOriginAllowed(origin: string | undefined, allowedOrigins: string[]): boolean {
+  if (!origin) return false;
+  return allowedOrigins.includes('*') || allowedOrigins.includes(origin.replace(/\/+$/, ''));
+}
+
+// Names a browser uses for this machine; only these reach a loopback-bound server legitimately
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+// Bind addresses that accept connections on every interface
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+// Lowercases a host name and removes IPv6 brackets
+function normalizeHostName(host: string): string {
+  return host.trim().toLowerCase().replace(/^\[(.*)\]$/, '$1');
+}
+
+/**
+ * Checks whether a bind address only accepts connections from this machine.
+ * @param host - Value of --host
+ * @returns true for localhost and loopback addresses
+ */
+export function isLoopbackHost(host: string): boolean {
+  const name = normalizeHostName(host);
+  return LOOPBACK_HOSTS.includes(name) || /^127(\.\d{1,3}){3}$/.test(name);
+}
+
+/**
+ * Builds the list of Host header values the HTTP server answers to, which stops DNS-rebinding
+ * pages (served from an attacker's domain that resolves to this machine) from calling it.
+ * @param bindHost - Address the server binds to
+ * @param allowedHosts - Extra host names from --allowed-hosts (comma-separated)
+ * @returns Allowed host names without ports; `*` if any host is allowed, which is only the case
+ *   for a wildcard bind without --allowed-hosts, where a token is required instead
+ */
+export function buildHostAllowlist(bindHost: string, allowedHosts: string | undefined): string[] {
+  const extra = (allowedHosts ?? '').split(',').map(normalizeHostName).filter(Boolean);
+  const bind = normalizeHostName(bindHost);
+  if (WILDCARD_HOSTS.includes(bind)) {
+    return extra.length > 0 ? [...LOOPBACK_HOSTS, ...extra] : ['*'];
+  }
+  return [...new Set([...LOOPBACK_HOSTS, bind, ...extra])];
+}
+
+/**
+ * Checks the Host header of a request against the allowlist of buildHostAllowlist.
+ * @param hostHeader - Value of the Host header, with an optional port
+ * @param allowedHosts - Allowed host names
+ * @returns true if the request names an allowed host
+ */
+export function isHostAllowed(hostHeader: string | undefined, allowedHosts: string[]): boolean {
+  if (allowedHosts.includes('*')) return true;
+  if (!hostHeader) return false;
+  const header = hostHeader.trim();
+  const host = header.startsWith('[') ? header.slice(0, header.indexOf(']') + 1) : header.split(':')[0];
+  return allowedHosts.includes(normalizeHostName(host));
+}
@@ -0,0 +1,227 @@
+import sharp from "sharp";
+import type { ImageRegion } from './image-regions.js';
+
+export interface PixelDiff {
+  // 1 for every changed pixel, row by row
+  mask: Uint8Array;
+  changedPixels: number;
+}
+
+export interface ImageComparison {
+  width: number;
+  height: number;
+  // Dimensions of the inputs, as displayed (EXIF orientation applied)
+  beforeSize: { width: number; height: number };
+  afterSize: { width: number; height: number };
+  // Factor the images were downscaled by before diffing (1 at full size); the pixel count and
+  // the regions are scaled back to full-size pixels
+  scale: number;
+  changedPixels: number;
+  changedPercent: number;
+  // Changed regions in full-size pixels, largest first, at most MAX_DIFF_REGIONS
+  regions: ImageRegion[];
+  // Number of changed regions before the cap
+  regionCount: number;
+  // The after image, faded, with changed pixels in red and regions boxed (PNG, at the compared size)
+  diff: Buffer;
+}
+
+// Default per-channel difference, as a fraction of the full range, below which a pixel counts as unchanged
+export const DEFAULT_DIFF_THRESHOLD = 0.1;
+// Changed pixels closer than this are reported as one region
+export const DIFF_REGION_GAP = 8;
+export const MAX_DIFF_REGIONS = 20;
+// Larger comparisons are downscaled to this many pixels first: the diff loops over every pixel in
+// JavaScript and holds several RGBA copies, so a huge image would block the server and fill memory
+export const MAX_DIFF_PIXELS = 2560 * 1600;
+
+/**
+ * Compares two RGBA images of the same size pixel by pixel.
+ * @param before - Raw RGBA pixels
+ * @param after - Raw RGBA pixels, same length
+ * @param threshold - Largest per-channel difference (0-1) still counted as unchanged
+ * @returns Mask of changed pixels and their count
+ */
+export function diffPixels(before: Uint8Array, after: Uint8Array, threshold: number): PixelDiff {
+  const limit = threshold * 255;
+  const mask = new Uint8Array(before.length / 4);
+  let changedPixels = 0;
+  for (let pixel = 0; pixel < mask.length; pixel++) {
+    const offset = pixel * 4;
+    for (let channel = 0; channel < 4; channel++) {
+      if (Math.abs(before[offset + channel] - after[offset + channel]) > limit) {
+        mask[pixel] = 1;
+        changedPixels++;
+        break;
+      }
+    }
+  }
+  return { mask, changedPixels };
+}
+
+/**
+ * Groups changed pixels into bounding boxes. The mask is divided into cells of `gap` pixels;
+ * changed cells that touch (including diagonally) form one region, whose box is fitted tightly
+ * around the changed pixels it contains.
+ * @param mask - Changed-pixel mask from diffPixels
+ * @param width - Image width
+ * @param height - Image height
+ * @param gap - Cell size: changed pixels closer than this end up in the same region
+ * @returns Regions, largest area first
+ */
+export function findChangedRegions(mask: Uint8Array, width: number, height: number, gap: number = DIFF_REGION_GAP): ImageRegion[] {
+  const columns = Math.ceil(width / gap);
+  const rows = Math.ceil(height / gap);
+  // Tight box of the changed pixels of each cell: [minX, minY, maxX, maxY], or undefined if unchanged
+  const cells: (number[] | undefined)[] = new Array(columns * rows);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      const cell = Math.floor(y / gap) * columns + Math.floor(x / gap);
+      const box = cells[cell];
+      if (box) {
+        box[0] = Math.min(box[0], x);
+        box[1] = Math.min(box[1], y);
+        box[2] = Math.max(box[2], x);
+        box[3] = Math.max(box[3], y);
+      } else {
+        cells[cell] = [x, y, x, y];
+      }
+    }
+  }
+
+  const visited = new Uint8Array(cells.length);
+  const regions: ImageRegion[] = [];
+  for (let start = 0; start < cells.length; start++) {
+    if (!cells[start] || visited[start]) continue;
+    const box = [...cells[start]!];
+    const queue = [start];
+    visited[start] = 1;
+    while (queue.length > 0) {
+      const cell = queue.pop()!;
+      const [minX, minY, maxX, maxY] = cells[cell]!;
+      box[0] = Math.min(box[0], minX);
+      box[1] = Math.min(box[1], minY);
+      box[2] = Math.max(box[2], maxX);
+      box[3] = Math.max(box[3], maxY);
+      const column = cell % columns;
+      const row = Math.floor(cell / columns);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const neighbourColumn = column + dx;
+          const neighbourRow = row + dy;
+          if (neighbourColumn < 0 || neighbourColumn >= columns || neighbourRow < 0 || neighbourRow >= rows) continue;
+          const neighbour = neighbourRow * columns + neighbourColumn;
+          if (cells[neighbour] && !visited[neighbour]) {
+            visited[neighbour] = 1;
+            queue.push(neighbour);
+          }
+        }
+      }
+    }
+    regions.push({ x: box[0], y: box[1], width: box[2] - box[0] + 1, height: box[3] - box[1] + 1 });
+  }
+  return regions.sort((a, b) => b.width * b.height - a.width * a.height);
+}
+
+// Decodes an image to RGBA, resized to its size at the comparison scale and padded with
+// transparent pixels to the comparison size
+async function decodePadded(data: Buffer, width: number, height: number, imageWidth: number, imageHeight: number): Promise<Buffer> {
+  return sharp(data, { autoOrient: true })
+    .resize(imageWidth, imageHeight, { fit: 'fill' })
+    .ensureAlpha()
+    .extend({ right: width - imageWidth, bottom: height - imageHeight, background: { r: 0, g: 0, b: 0, alpha: 0 } })
+    .raw()
+    .toBuffer();
+}
+
+// Fades the after image to light grey, paints changed pixels red and outlines the regions
+function renderDiff(after: Buffer, mask: Uint8Array, regions: ImageRegion[], width: number, height: number): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height * 4);
+  for (let pixel = 0; pixel < mask.length; pixel++) {
+    const offset = pixel * 4;
+    if (mask[pixel]) {
+      pixels.set([255, 0, 0, 255], offset);
+    } else {
+      const grey = (after[offset] * 0.299 + after[offset + 1] * 0.587 + after[offset + 2] * 0.114) * (after[offset + 3] / 255);
+      const faded = Math.round(255 - (255 - grey) * 0.3);
+      pixels.set([faded, faded, faded, 255], offset);
+    }
+  }
+  for (const region of regions) {
+    const right = region.x + region.width - 1;
+    const bottom = region.y + region.height - 1;
+    const mark = (x: number, y: number) => pixels.set([255, 0, 255, 255], (y * width + x) * 4);
+    for (let x = region.x; x <= right; x++) {
+      mark(x, region.y);
+      mark(x, bottom);
+    }
+    for (let y = region.y; y <= bottom; y++) {
+      mark(region.x, y);
+      mark(right, y);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 4 } }).png().toBuffer();
+}
+
+// Maps a region found on the downscaled canvas back to full-size pixels, covering every full-size
+// pixel the downscaled ones stand for
+function toFullSize(region: ImageRegion, scaleX: number, scaleY: number, width: number, height: number): ImageRegion {
+  const x = Math.floor(region.x / scaleX);
+  const y = Math.floor(region.y / scaleY);
+  return {
+    x,
+    y,
+    width: Math.min(width, Math.ceil((region.x + region.width) / scaleX)) - x,
+    height: Math.min(height, Math.ceil((region.y + region.height) / scaleY)) - y,
+  };
+}
+
+/**
+ * Compares a before and an after image. Images of different sizes are compared on a canvas of
+ * the larger width and height, so the area only one of them covers counts as changed. Canvases
+ * over MAX_DIFF_PIXELS are compared downscaled, and the results scaled back to full-size pixels.
+ * @param before - Encoded before image
+ * @param after - Encoded after image
+ * @param threshold - Largest per-channel difference (0-1) still counted as unchanged
+ * @returns Changed pixels, changed regions and a diff highlight image
+ * @throws Error if either image cannot be decoded
+ */
+export async function compareImages(before: Buffer, after: Buffer, threshold: number = DEFAULT_DIFF_THRESHOLD): Promise<ImageComparison> {
+  const [beforeMetadata, afterMetadata] = await Promise.all([before, after].map(data => sharp(data).metadata().catch(() => null)));
+  if (!beforeMetadata || !afterMetadata) {
+    throw new Error(`Cannot decode the ${beforeMetadata ? 'after' : 'before'} image`);
+  }
+  const beforeSize = beforeMetadata.autoOrient;
+  const afterSize = afterMetadata.autoOrient;
+  const width = Math.max(beforeSize.width, afterSize.width);
+  const height = Math.max(beforeSize.height, afterSize.height);
+
+  const scale = Math.min(1, Math.sqrt(MAX_DIFF_PIXELS / (width * height)));
+  const scaled = (size: number) => Math.max(1, Math.round(size * scale));
+  const [beforeWidth, beforeHeight, afterWidth, afterHeight] = [beforeSize.width, beforeSize.height, afterSize.width, afterSize.height].map(scaled);
+  const diffWidth = Math.max(beforeWidth, afterWidth);
+  const diffHeight = Math.max(beforeHeight, afterHeight);
+
+  const [beforePixels, afterPixels] = await Promise.all([
+    decodePadded(before, diffWidth, diffHeight, beforeWidth, beforeHeight),
+    decodePadded(after, diffWidth, diffHeight, afterWidth, afterHeight),
+  ]);
+  const { mask, changedPixels } = diffPixels(beforePixels, afterPixels, threshold);
+  const allRegions = findChangedRegions(mask, diffWidth, diffHeight);
+  const regions = allRegions.slice(0, MAX_DIFF_REGIONS);
+
+  return {
+    width,
+    height,
+    beforeSize: { width: beforeSize.width, height: beforeSize.height },
+    afterSize: { width: afterSize.width, height: afterSize.height },
+    scale,
+    changedPixels: Math.min(width * height, Math.round(changedPixels * (width * height) / (diffWidth * diffHeight))),
+    changedPercent: Math.round(changedPixels / (diffWidth * diffHeight) * 10000) / 100,
+    regions: scale === 1 ? regions : regions.map(region => toFullSize(region, diffWidth / width, diffHeight / height, width, height)),
+    regionCount: allRegions.length,
+    diff: await renderDiff(afterPixels, mask, regions, diffWidth, diffHeight),
+  };
+}
+
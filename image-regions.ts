@@ -0,0 +1,170 @@
+import sharp from "sharp";
+
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageGrid {
+  columns: number;
+  rows: number;
+}
+
+export interface ImageTile {
+  // Spreadsheet-style label: column letter, row number (A1 is the top-left tile)
+  label: string;
+  region: ImageRegion;
+}
+
+export interface ImageInfo {
+  format: string;
+  // Dimensions as displayed, with the EXIF orientation applied
+  width: number;
+  height: number;
+  // EXIF orientation tag (1-8), or null if the image has none
+  orientation: number | null;
+}
+
+export const MAX_GRID_COLUMNS = 26;
+export const MAX_GRID_ROWS = 26;
+
+const ORIENTATION_NAMES: Record<number, string> = {
+  1: 'normal',
+  2: 'mirrored horizontally',
+  3: 'rotated 180°',
+  4: 'mirrored vertically',
+  5: 'mirrored and rotated 90° counter-clockwise',
+  6: 'rotated 90° clockwise',
+  7: 'mirrored and rotated 90° clockwise',
+  8: 'rotated 90° counter-clockwise',
+};
+
+/**
+ * Describes an EXIF orientation tag for the agent.
+ * @param orientation - EXIF orientation (1-8), or null
+ * @returns e.g. `6 (rotated 90° clockwise)`, or `none`
+ */
+export function describeOrientation(orientation: number | null): string {
+  if (orientation === null) return 'none';
+  return ORIENTATION_NAMES[orientation] ? `${orientation} (${ORIENTATION_NAMES[orientation]})` : String(orientation);
+}
+
+/**
+ * Splits an image into a grid of labelled tiles. Tile edges are rounded down, so the tiles of a
+ * row or column cover the image exactly, differing in size by at most one pixel.
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param grid - Number of columns and rows
+ * @returns Tiles row by row: A1, B1, ..., A2, ...
+ * @throws Error if the grid has more columns or rows than the image has pixels, or too many columns or rows
+ */
+export function getGridTiles(width: number, height: number, grid: ImageGrid): ImageTile[] {
+  if (grid.columns > MAX_GRID_COLUMNS || grid.rows > MAX_GRID_ROWS) {
+    throw new Error(`A grid has at most ${MAX_GRID_COLUMNS} columns and ${MAX_GRID_ROWS} rows`);
+  }
+  if (grid.columns > width || grid.rows > height) {
+    throw new Error(`Cannot split a ${width}x${height} image into ${grid.columns}x${grid.rows} tiles`);
+  }
+  const tiles: ImageTile[] = [];
+  for (let row = 0; row < grid.rows; row++) {
+    const top = Math.floor(row * height / grid.rows);
+    const bottom = Math.floor((row + 1) * height / grid.rows);
+    for (let column = 0; column < grid.columns; column++) {
+      const left = Math.floor(column * width / grid.columns);
+      const right = Math.floor((column + 1) * width / grid.columns);
+      tiles.push({
+        label: `${String.fromCharCode(65 + column)}${row + 1}`,
+        region: { x: left, y: top, width: right - left, height: bottom - top },
+      });
+    }
+  }
+  return tiles;
+}
+
+/**
+ * Looks up a tile of a grid by its label.
+ * @param tiles - Tiles from getGridTiles
+ * @param label - Tile label such as `B2`, case-insensitive
+ * @returns The tile
+ * @throws Error if the grid has no such tile
+ */
+export function findTile(tiles: ImageTile[], label: string): ImageTile {
+  const tile = tiles.find(candidate => candidate.label === label.trim().toUpperCase());
+  if (!tile) {
+    throw new Error(`Unknown tile "${label}": tiles run from A1 to ${tiles[tiles.length - 1].label}`);
+  }
+  return tile;
+}
+
+/**
+ * Checks that a crop region lies within an image.
+ * @param region - Region in pixels of the displayed (EXIF-oriented) image
+ * @param width - Image width
+ * @param height - Image height
+ * @throws Error if the region is empty or reaches past the image edges
+ */
+export function assertRegionInImage(region: ImageRegion, width: number, height: number): void {
+  if (region.width <= 0 || region.height <= 0) {
+    throw new Error('Crop region must have a positive width and height');
+  }
+  if (region.x < 0 || region.y < 0 || region.x + region.width > width || region.y + region.height > height) {
+    throw new Error(
+      `Crop region ${region.width}x${region.height} at (${region.x}, ${region.y}) lies outside the ${width}x${height} image`
+    );
+  }
+}
+
+/**
+ * Reads the format, displayed dimensions and EXIF orientation of an image.
+ * @param data - Encoded image
+ * @returns Image info, or null if the format cannot be decoded
+ */
+export async function readImageInfo(data: Buffer): Promise<ImageInfo | null> {
+  const metadata = await sharp(data).metadata().catch(() => null);
+  if (!metadata) return null;
+  return {
+    format: metadata.format,
+    width: metadata.autoOrient.width,
+    height: metadata.autoOrient.height,
+    orientation: metadata.orientation ?? null,
+  };
+}
+
+/**
+ * Cuts a region out of an image. Coordinates refer to the image as displayed, so the EXIF
+ * orientation is applied first; animated images are cut from their first frame.
+ * @param data - Encoded image
+ * @param region - Region to extract, already checked with assertRegionInImage
+ * @returns The region as PNG
+ */
+export async function extractRegion(data: Buffer, region: ImageRegion): Promise<Buffer> {
+  return sharp(data, { autoOrient: true })
+    .extract({ left: region.x, top: region.y, width: region.width, height: region.height })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Draws the grid lines and tile labels over an image, so the agent can pick a tile to look at.
+ * @param data - Encoded image
+ * @param info - Info of the image, from readImageInfo
+ * @param tiles - Tiles from getGridTiles
+ * @returns The annotated image as PNG
+ */
+export async function drawGrid(data: Buffer, info: ImageInfo, tiles: ImageTile[]): Promise<Buffer> {
+  // Scale strokes and labels with the image, so they stay readable once it is downscaled
+  const unit = Math.max(1, Math.round(Math.min(info.width, info.height) / 400));
+  const fontSize = 12 * unit;
+  const shapes = tiles.map(({ label, region }) =>
+    `<rect x="${region.x}" y="${region.y}" width="${region.width}" height="${region.height}" fill="none" stroke="#ff00ff" stroke-width="${unit}"/>` +
+    `<rect x="${region.x}" y="${region.y}" width="${fontSize * 2.6}" height="${fontSize * 1.4}" fill="#ff00ff"/>` +
+    `<text x="${region.x + fontSize * 0.3}" y="${region.y + fontSize * 1.1}" font-family="sans-serif" font-weight="bold" font-size="${fontSize}" fill="#ffffff">${label}</text>`
+  );
+  const overlay = `<svg xmlns="http://www.w3.org/2000/svg" width="${info.width}" height="${info.height}">${shapes.join('')}</svg>`;
+  return sharp(data, { autoOrient: true })
+    .composite([{ input: Buffer.from(overlay), top: 0, left: 0 }])
+    .png()
+    .toBuffer();
+}
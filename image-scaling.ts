@@ -0,0 +1,101 @@
+import sharp from "sharp";
+
+export interface ImageLimits {
+  maxWidth: number;
+  maxHeight: number;
+  // Size of the encoded image, before base64
+  maxBytes: number;
+}
+
+export interface ScaledImage {
+  data: Buffer;
+  mimeType: string;
+  // Dimensions of the returned image; null if the format could not be decoded
+  width: number | null;
+  height: number | null;
+  originalWidth: number | null;
+  originalHeight: number | null;
+  originalBytes: number;
+  // True if the image was downscaled or re-encoded
+  scaled: boolean;
+}
+
+export const DEFAULT_IMAGE_LIMITS: ImageLimits = {
+  maxWidth: 2048,
+  maxHeight: 2048,
+  maxBytes: 1024 * 1024,
+};
+
+// Each retry shrinks the image further when re-encoding alone does not fit maxBytes
+const SHRINK_FACTOR = 0.75;
+const MAX_ENCODE_ATTEMPTS = 8;
+const MIN_DIMENSION = 16;
+
+/**
+ * Fits an image into size limits. Images within the limits are returned untouched; larger ones are
+ * downscaled to fit maxWidth x maxHeight (keeping the aspect ratio) and re-encoded, shrinking further
+ * until the encoded size fits maxBytes. Animated images keep their animation.
+ *
+ * PNG input stays PNG on the first attempt; after that, and for every other format, the image is
+ * re-encoded as WebP, which keeps transparency and animation at a fraction of the size.
+ * Re-encoded images have their EXIF orientation applied, since the tag is not carried over.
+ *
+ * @param data - Encoded image
+ * @param mimeType - MIME type of the image
+ * @param limits - Maximum dimensions and encoded size
+ * @returns The image to return, with its original and final dimensions
+ * @throws Error if the image cannot be decoded and is over maxBytes, or cannot be shrunk enough
+ */
+export async function scaleImage(data: Buffer, mimeType: string, limits: ImageLimits): Promise<ScaledImage> {
+  const metadata = await sharp(data).metadata().catch(() => null);
+  if (!metadata) {
+    // Formats sharp cannot decode (such as BMP) can only be passed through
+    if (data.length > limits.maxBytes) {
+      throw new Error(`Cannot downscale ${mimeType} images: the file is ${data.length} bytes, over maxBytes (${limits.maxBytes})`);
+    }
+    return { data, mimeType, width: null, height: null, originalWidth: null, originalHeight: null, originalBytes: data.length, scaled: false };
+  }
+
+  const animated = (metadata.pages ?? 1) > 1;
+  // Dimensions as displayed, with the EXIF orientation applied
+  const originalWidth = metadata.autoOrient.width ?? null;
+  // Animated images report the height of all frames stacked
+  const originalHeight = (animated ? metadata.pageHeight : metadata.autoOrient.height) ?? null;
+  const original = { originalWidth, originalHeight, originalBytes: data.length };
+
+  // Vector images have no meaningful pixel size until they are rasterized
+  const isVector = metadata.format === 'svg';
+  const tooLarge = !isVector && originalWidth !== null && originalHeight !== null &&
+    (originalWidth > limits.maxWidth || originalHeight > limits.maxHeight);
+  if (!tooLarge && data.length <= limits.maxBytes) {
+    return { data, mimeType, width: originalWidth, height: originalHeight, ...original, scaled: false };
+  }
+
+  let boxWidth = limits.maxWidth;
+  let boxHeight = limits.maxHeight;
+  for (let attempt = 0; attempt < MAX_ENCODE_ATTEMPTS; attempt++) {
+    const pipeline = sharp(data, { animated, autoOrient: true }).resize({
+      width: boxWidth,
+      height: boxHeight,
+      fit: 'inside',
+      withoutEnlargement: !isVector,
+    });
+    const keepPng = attempt === 0 && metadata.format === 'png';
+    const { data: output, info } = await (keepPng ? pipeline.png() : pipeline.webp({ quality: 80 })).toBuffer({ resolveWithObject: true });
+    if (output.length <= limits.maxBytes) {
+      return {
+        data: output,
+        mimeType: keepPng ? 'image/png' : 'image/webp',
+        width: info.width,
+        height: animated ? info.pageHeight ?? info.height : info.height,
+        ...original,
+        scaled: true,
+      };
+    }
+    // Shrink from the size actually produced, so images smaller than the box shrink too
+    boxWidth = Math.floor(info.width * (keepPng ? 1 : SHRINK_FACTOR));
+    boxHeight = Math.floor((animated ? info.pageHeight ?? info.height : info.height) * (keepPng ? 1 : SHRINK_FACTOR));
+    if (boxWidth < MIN_DIMENSION || boxHeight < MIN_DIMENSION) break;
+  }
+  throw new Error(`Cannot fit the image into ${limits.maxBytes} bytes, even after downscaling; raise maxBytes`);
+}
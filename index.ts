@@ -3,44 +3,190 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   ToolSchema,
   RootsListChangedNotificationSchema,
+  isInitializeRequest,
   type Root,
+  type ProgressToken,
+  type ServerNotification,
+  type ServerRequest,
 } from "@modelcontextprotocol/sdk/types.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
 import fs from "fs/promises";
-import { createReadStream, watch, FSWatcher } from "fs";
+import { randomUUID } from "crypto";
+import { createReadStream } from "fs";
 import path from "path";
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import express from "express";
-import { normalizePath, expandHome } from './path-utils.js';
+import { normalizePath, expandHome, splitGlobPattern } from './path-utils.js';
 import { getValidRootDirectories } from './roots-utils.js';
 import {
   validatePath,
   readFileContent,
-  tailFile,
-  headFile,
+  writeFileContent,
+  hashContent,
+  searchFilesWithValidation,
   setAllowedDirectories,
 } from './lib.js';
+import {
+  parseFeedback,
+  computeFeedbackDelta,
+  formatStatusSection,
+  formatQuestionSection,
+  findSelectedOption,
+  parseStatusPosts,
+  findTermination,
+  findNewImageReferences,
+  type SelectedOption,
+} from './feedback-format.js';
+import { appendHistoryEntry, getHistoryPath, getStateDirectory, readHistory } from './feedback-history.js';
+import { waitForFileChange, resolveWaiters, cancelWaiters, type FeedbackWaiter } from './feedback-wait.js';
+import { TIMEOUT_MODES, buildTimeoutResult, type TimeoutMode } from './feedback-timeout.js';
+import { watchDirectory, watchFile, type FileWatcherHandle } from './file-watcher.js';
+import {
+  DEFAULT_CHANNEL,
+  createFeedbackChannel,
+  isFeedbackTarget,
+  isValidSessionName,
+  type FeedbackChannel,
+} from './feedback-channel.js';
+import { createEventStore } from './event-store.js';
+import { feedbackResourceUri, feedbackResourcePath } from './feedback-resources.js';
+import { DEFAULT_PROMPTS, PROMPTS_FILE, loadPrompts, renderPrompt } from './feedback-prompts.js';
+import {
+  CONFIG_FILE,
+  DEFAULT_SERVER_CONFIG,
+  TOOL_NAMES,
+  loadServerConfig,
+  resolveToolName,
+  getPlaceholderValues,
+  fillPlaceholders,
+  type ServerConfig,
+  type ToolName,
+} from './server-config.js';
+import { getToolDescriptions } from './tool-descriptions.js';
+import {
+  DEFAULT_HOST,
+  AUTH_TOKEN_ENV,
+  loadAuthToken,
+  isAuthorized,
+  parseOriginList,
+  isOriginAllowed,
+  isLoopbackHost,
+  buildHostAllowlist,
+  isHostAllowed,
+} from './http-auth.js';
+import { renderDashboardPage } from './dashboard.js';
+import { getMediaType, parseMediaRange, renderPdfPages, extractKeyframes, type ExtractedImage } from './media.js';
+import { DEFAULT_IMAGE_LIMITS, scaleImage, type ImageLimits, type ScaledImage } from './image-scaling.js';
+import { DEFAULT_DIFF_THRESHOLD, compareImages } from './image-diff.js';
+import {
+  MAX_GRID_COLUMNS,
+  MAX_GRID_ROWS,
+  assertRegionInImage,
+  describeOrientation,
+  drawGrid,
+  extractRegion,
+  findTile,
+  getGridTiles,
+  readImageInfo,
+  type ImageRegion,
+  type ImageTile,
+} from './image-regions.js';
+import {
+  createMetricsRegistry,
+  recordToolCall,
+  recordDelivery,
+  recordWait,
+  recordWatcherError,
+  renderPrometheus,
+} from './metrics.js';
 
 const DEFAULT_TIMEOUT = 300000; // 5 minutes
+const DEFAULT_PROGRESS_INTERVAL = 15000; // 15 seconds
+const DEFAULT_DEBOUNCE = 100; // milliseconds
+const DEFAULT_MAX_MEDIA_SIZE = 50 * 1024 * 1024; // bytes
+// Files picked up when get_feedback is given a directory, and folders never searched
+const DIRECTORY_FEEDBACK_PATTERN = '**/*.md';
+const FEEDBACK_SEARCH_EXCLUDES = ['**/.tasksync', '**/.git', '**/node_modules'];
 // Parse configuration from environment variables or command line
 
 // Command line argument parsing with embedded mode support
 const args = process.argv.slice(2);
 const useSSE = args.includes('--sse');
+const useHTTP = args.includes('--http');
 const ssePort = parseInt(args.find(arg => arg.startsWith('--port='))?.split('=')[1] || '3001');
-const directoryArgs = args.filter(arg => 
-  !['--sse', '--embedded', '--stdio'].some(flag => arg.startsWith(flag)) && 
-  !arg.startsWith('--port=')
-);
+const directoryArgs = args.filter(arg => !arg.startsWith('--'));
+const getArgValue = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=');
 const timeoutArg = args.find(arg => arg.startsWith('--timeout='));
 const parsedTimeout = timeoutArg ? parseInt(timeoutArg.split('=')[1]) : NaN;
 const feedbackTimeout = !isNaN(parsedTimeout) ? parsedTimeout : DEFAULT_TIMEOUT;
 
+// What get_feedback returns when no feedback arrives before the timeout (see feedback-timeout.ts)
+const onTimeoutArg = getArgValue('on-timeout') ?? 'error';
+if (!(TIMEOUT_MODES as readonly string[]).includes(onTimeoutArg)) {
+  console.error(`Invalid --on-timeout value: ${onTimeoutArg} (expected ${TIMEOUT_MODES.join(', ')})`);
+  process.exit(1);
+}
+const onTimeout = onTimeoutArg as TimeoutMode;
+// Interval between notifications/progress messages while a call waits for feedback (0 disables them)
+const parsedProgressInterval = parseInt(getArgValue('progress-interval') ?? '');
+const progressInterval = !isNaN(parsedProgressInterval) ? parsedProgressInterval : DEFAULT_PROGRESS_INTERVAL;
+// Window for merging bursts of watcher events from a single editor save
+const parsedDebounce = parseInt(getArgValue('debounce') ?? '');
+const debounceMs = !isNaN(parsedDebounce) ? parsedDebounce : DEFAULT_DEBOUNCE;
+// Optional cap on how long a feedback file may stay idle; once spent, timeouts are reported as errors
+const parsedMaxIdle = parseInt(getArgValue('max-idle') ?? '');
+const maxIdle = !isNaN(parsedMaxIdle) ? parsedMaxIdle : null;
+// Hard cap on the size of files view_media reads; larger files are rejected before they are loaded
+const parsedMaxMediaSize = parseInt(getArgValue('max-media-size') ?? '');
+const maxMediaSize = !isNaN(parsedMaxMediaSize) ? parsedMaxMediaSize : DEFAULT_MAX_MEDIA_SIZE;
+// Config file for tool names, descriptions and termination keywords. Defaults to
+// .tasksync/config.json in the allowed directory holding the session's feedback file.
+const configFileArg = getArgValue('config');
+const configFile = configFileArg ? path.resolve(expandHome(configFileArg)) : null;
+if (configFile) {
+  try {
+    await fs.access(configFile);
+  } catch {
+    console.error(`Error: config file not found: ${configFile}`);
+    process.exit(1);
+  }
+}
+
+// Address the HTTP server binds to, and browser origins allowed to call it (CORS)
+const httpHost = getArgValue('host') ?? DEFAULT_HOST;
+const allowedOrigins = parseOriginList(getArgValue('cors-origin'));
+// Host header values the HTTP server answers to (DNS-rebinding protection)
+const allowedHosts = buildHostAllowlist(httpHost, getArgValue('allowed-hosts'));
+
+// Bearer token required by the HTTP server, from --token-file or the environment
+let authToken: string | null = null;
+if (useSSE || useHTTP) {
+  try {
+    authToken = await loadAuthToken(process.env, getArgValue('token-file'));
+  } catch (error) {
+    console.error(`Error loading auth token: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+  // Anyone on the network could read and inject feedback on an unauthenticated non-loopback server
+  if (authToken === null && !isLoopbackHost(httpHost)) {
+    console.error(`Error: --host=${httpHost} accepts remote connections and requires a bearer token. Set ${AUTH_TOKEN_ENV} or --token-file.`);
+    process.exit(1);
+  }
+}
+
 // Store allowed directories in normalized and resolved form
 let allowedDirectories: string[] = [];
 
@@ -72,88 +218,370 @@ await Promise.all(allowedDirectories.map(async (dir) => {
 // Initialize the global allowedDirectories in lib.ts
 setAllowedDirectories(allowedDirectories);
 
-// File watching state for check_review (support multiple files)
-const lastFileModifiedByPath: Map<string, number> = new Map();
-const fileWatchers: Map<string, FSWatcher> = new Map();
+// File watchers are shared; a change is routed to every channel watching the file
+const fileWatchers: Map<string, FileWatcherHandle> = new Map();
+// Feedback channels by session name. Stdio and unnamed SSE clients use the default channel.
+const channels: Map<string, FeedbackChannel> = new Map();
 const connectedTransports: Set<SSEServerTransport> = new Set();
+// Streamable HTTP transports by Mcp-Session-Id
+const httpTransports: Map<string, StreamableHTTPServerTransport> = new Map();
 
-// Waiting mechanism for check_review
-const waitingForFileChange: Array<{
-  path: string;
-  resolve: (content: string) => void;
-  reject: (error: Error) => void;
-}> = [];
+// Counters and histograms served on /metrics
+const metrics = createMetricsRegistry();
 
-// Lazy initialization state
-let isInitialized = false;
+// Identifies deliveries in the history log when the transport has no session id (stdio)
+const processSessionId = randomUUID();
+const serverStartedAt = Date.now();
 
 // Schema definitions
 
 const AskReviewArgsSchema = z.object({
-  path: z.string().optional().describe('Absolute or relative path to the feedback file within allowed directories. Defaults to feedback.md in the current working directory.'),
+  path: z.string().optional().describe('Absolute or relative path to the feedback file within allowed directories. Defaults to the feedback file of this session in the current working directory (feedback.md, or feedback.<session>.md for named SSE sessions). A directory (all .md files below it) or a glob such as feedback/*.md watches a group of files and returns whichever changed first.'),
   tail: z.number().optional().describe('If provided, returns only the last N lines of the review file'),
-  head: z.number().optional().describe('If provided, returns only the first N lines of the review file')
+  head: z.number().optional().describe('If provided, returns only the first N lines of the review file'),
+  mode: z.enum(['full', 'delta']).optional().default('full').describe('full returns the whole file; delta returns only the text appended since the last delivery, or a unified diff when earlier content was edited'),
+  timeoutMs: z.number().int().positive().max(2147483647).optional().describe('How long to wait for feedback in milliseconds. Defaults to the server --timeout')
+});
+
+type AskReviewArgs = z.infer<typeof AskReviewArgsSchema>;
+
+const GetFeedbackHistoryArgsSchema = z.object({
+  path: z.string().optional().describe('Only return deliveries of this feedback file. Defaults to all files logged in the allowed directory containing feedback.md'),
+  sessionId: z.string().optional().describe('Only return deliveries made to this session'),
+  since: z.string().optional().describe('Only return deliveries at or after this ISO 8601 timestamp'),
+  offset: z.number().int().min(0).optional().default(0).describe('Number of entries to skip, newest first'),
+  limit: z.number().int().min(1).max(200).optional().default(20).describe('Maximum number of entries to return')
+});
+
+const PostStatusArgsSchema = z.object({
+  message: z.string().min(1).describe('Progress report for the user: what you did, what you are doing next, open questions'),
+  path: z.string().optional().describe('Feedback file the status belongs to. Defaults to the feedback file of this session in the current working directory (feedback.md, or feedback.<session>.md for named SSE sessions).'),
+  target: z.enum(['status_file', 'feedback']).optional().default('status_file').describe('status_file appends to status.md next to the feedback file; feedback appends a reserved agent section to the feedback file itself')
+});
+
+const AskUserArgsSchema = z.object({
+  question: z.string().min(1).describe('Question to ask the user'),
+  options: z.array(z.string().min(1)).min(2).describe('Options the user can choose from, rendered as a markdown checkbox list'),
+  path: z.string().optional().describe('Feedback file to write the question to. Defaults to the feedback file of this session in the current working directory (feedback.md, or feedback.<session>.md for named SSE sessions).')
 });
 
 const ReadImageFileArgsSchema = z.object({
-  path: z.string()
+  path: z.string().describe('Absolute or relative path to the media file within allowed directories'),
+  pages: z.string().optional().describe('PDF pages to render, 1-based: "3", "2-5" or "4-". Defaults to the first pages'),
+  frames: z.string().optional().describe('Video or GIF keyframes to extract, 1-based: "3", "2-5" or "4-". Videos default to the first keyframes; GIFs are returned as is unless frames is set'),
+  maxWidth: z.number().int().positive().optional().describe(`Downscale images wider than this many pixels (default ${DEFAULT_IMAGE_LIMITS.maxWidth})`),
+  maxHeight: z.number().int().positive().optional().describe(`Downscale images taller than this many pixels (default ${DEFAULT_IMAGE_LIMITS.maxHeight})`),
+  maxBytes: z.number().int().positive().optional().describe(`Re-encode and shrink images until each is at most this many bytes (default ${DEFAULT_IMAGE_LIMITS.maxBytes})`),
+  crop: z.object({
+    x: z.number().int().min(0),
+    y: z.number().int().min(0),
+    width: z.number().int().positive(),
+    height: z.number().int().positive(),
+  }).optional().describe('Return only this region of the image, in pixels of the image as displayed (EXIF orientation applied)'),
+  grid: z.object({
+    columns: z.number().int().min(1).max(MAX_GRID_COLUMNS),
+    rows: z.number().int().min(1).max(MAX_GRID_ROWS),
+  }).optional().describe('Split the image into labelled tiles (A1 is top-left). Without tile, returns the image with the grid drawn over it'),
+  tile: z.string().optional().describe('With grid, return only this tile, e.g. "B2"')
+}).refine(args => !(args.crop && args.grid), { message: 'Use either crop or grid, not both' })
+  .refine(args => args.tile === undefined || args.grid !== undefined, { message: 'tile requires grid' });
+
+type ViewMediaArgs = z.infer<typeof ReadImageFileArgsSchema>;
+
+const CompareMediaArgsSchema = z.object({
+  before: z.string().describe('Absolute or relative path to the before image within allowed directories'),
+  after: z.string().describe('Absolute or relative path to the after image within allowed directories'),
+  threshold: z.number().min(0).max(1).optional().describe(`Largest per-channel color difference (0-1) still counted as unchanged, to ignore antialiasing and compression noise (default ${DEFAULT_DIFF_THRESHOLD})`)
 });
 
+// Body of POST /feedback, used by scripts, CI bots and the /ui dashboard
+const SubmitFeedbackBodySchema = z.object({
+  text: z.string().trim().min(1),
+  path: z.string().optional(),
+  session: z.string().optional(),
+  mode: z.enum(['append', 'replace']).default('append'),
+}).refine(body => !(body.path && body.session), { message: "Pass either path or session, not both" });
+type SubmitFeedbackBody = z.infer<typeof SubmitFeedbackBodySchema>;
+
 const ToolInputSchema = ToolSchema.shape.inputSchema;
 type ToolInput = z.infer<typeof ToolInputSchema>;
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Argument schemas of the tools, by unprefixed tool name
+const TOOL_SCHEMAS: Record<ToolName, z.ZodTypeAny> = {
+  get_feedback: AskReviewArgsSchema,
+  get_feedback_history: GetFeedbackHistoryArgsSchema,
+  post_status: PostStatusArgsSchema,
+  ask_user: AskUserArgsSchema,
+  view_media: ReadImageFileArgsSchema,
+  compare_media: CompareMediaArgsSchema,
+};
 
-function formatResponseWithHeadTail(content: string, head?: number, tail?: number): { content: { type: "text", text: string }[] } {
+function sliceHeadTail(content: string, head?: number, tail?: number): string {
   if (head && tail) {
     throw new Error("Cannot specify both head and tail parameters simultaneously");
   }
 
   if (tail) {
-    const lines = content.split('\n');
-    const tailLines = lines.slice(-tail);
-    return {
-      content: [{ type: "text", text: tailLines.join('\n') }],
-    };
+    return content.split('\n').slice(-tail).join('\n');
   }
 
   if (head) {
-    const lines = content.split('\n');
-    const headLines = lines.slice(0, head);
-    return {
-      content: [{ type: "text", text: headLines.join('\n') }],
-    };
+    return content.split('\n').slice(0, head).join('\n');
   }
 
+  return content;
+}
+
+// Builds the get_feedback result: the feedback text (whole file or delta) plus the parsed
+// front-matter and message blocks, with blocks not delivered by a previous call flagged as new.
+// Every delivery is also appended to the history log of the allowed directory.
+// Results for a group of files (directory or glob) are labelled with the path of the file.
+async function buildFeedbackResponse(channel: FeedbackChannel, filePath: string, content: string, options: AskReviewArgs, sessionId: string, config: ServerConfig, labelled: boolean = false) {
+  const displayPath = path.relative(process.cwd(), filePath) || filePath;
+  const delta = computeFeedbackDelta(channel.lastDeliveredContentByPath.get(filePath), content, displayPath);
+  const body = sliceHeadTail(options.mode === 'delta' ? delta.text : content, options.head, options.tail);
+  const text = labelled ? `[${displayPath}]\n${body}` : body;
+
+  const parsed = parseFeedback(content, channel.deliveredBlockHashesByPath.get(filePath), config.terminationKeywords);
+  const termination = findTermination(parsed.blocks);
+  const images = await loadFeedbackImages(filePath, findNewImageReferences(parsed.blocks), config);
+  channel.deliveredBlockHashesByPath.set(filePath, new Set(parsed.blocks.map(block => block.hash)));
+  channel.lastDeliveredContentByPath.set(filePath, content);
+  channel.lastDeliveredAtByPath.set(filePath, Date.now());
+  recordDelivery(metrics, displayPath);
+
+  await appendHistoryEntry(getHistoryPath(filePath, allowedDirectories), {
+    timestamp: new Date().toISOString(),
+    path: filePath,
+    hash: hashContent(text),
+    sessionId,
+    mode: options.mode,
+    content: text,
+  }).catch(error => console.error(`Failed to record feedback history for ${filePath}: ${error}`));
+
+  const structuredContent = {
+    path: displayPath,
+    mode: options.mode,
+    deltaType: delta.type,
+    priority: parsed.priority,
+    targets: parsed.targets,
+    status: parsed.status,
+    frontMatter: parsed.frontMatter,
+    blocks: parsed.blocks,
+    newBlocks: parsed.blocks.filter(block => block.isNew && block.kind !== 'status' && block.kind !== 'question').map(block => block.index),
+    terminate: termination !== null,
+    images: images.attached,
+    skippedImages: images.skipped,
+  };
+
+  const result: { type: string; text?: string; data?: string; mimeType?: string }[] = [
+    { type: "text", text },
+    { type: "text", text: JSON.stringify(structuredContent, null, 2) },
+    ...images.blocks,
+  ];
+  if (termination) {
+    endChannelSession(channel, termination.text);
+    result.push({ type: "text", text: formatTerminationNotice(termination.text, config) });
+  }
+
+  return { content: result, structuredContent };
+}
+
+// Loads the local images referenced in newly delivered feedback (![alt](path), relative to the feedback
+// file) as image blocks, up to the configured count, downscaled to the configured size. Images that
+// cannot be attached are reported with the reason instead of failing the delivery.
+async function loadFeedbackImages(feedbackPath: string, references: string[], config: ServerConfig) {
+  const { maxCount, maxBytes } = config.feedbackImages;
+  const attached: { reference: string; path: string; mimeType: string; width: number | null; height: number | null; scaled: boolean }[] = [];
+  const skipped: { reference: string; reason: string }[] = [];
+  const blocks: { type: string; text?: string; data?: string; mimeType?: string }[] = [];
+  if (maxCount === 0) return { attached, skipped, blocks };
+
+  for (const reference of references) {
+    if (attached.length >= maxCount) {
+      skipped.push({ reference, reason: `Only ${maxCount} images are attached per delivery; use ${config.toolPrefix}view_media for the rest` });
+      continue;
+    }
+    try {
+      const validPath = await validatePath(path.resolve(path.dirname(feedbackPath), expandHome(reference)));
+      const displayPath = path.relative(process.cwd(), validPath) || validPath;
+      const mediaType = getMediaType(validPath);
+      if (mediaType?.kind !== 'image') {
+        throw new Error(`${displayPath} is not an image`);
+      }
+      await checkMediaSize(validPath, displayPath, `${config.toolPrefix}get_feedback`);
+      const image = await scaleImage(await fs.readFile(validPath), mediaType.mimeType, { ...DEFAULT_IMAGE_LIMITS, maxBytes });
+      attached.push({ reference, path: displayPath, mimeType: image.mimeType, width: image.width, height: image.height, scaled: image.scaled });
+      blocks.push(
+        { type: "text", text: `Image ${reference}: ${describeScaledImage(image)}` },
+        { type: "image", data: image.data.toString('base64'), mimeType: image.mimeType },
+      );
+    } catch (error) {
+      skipped.push({ reference, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return { attached, skipped, blocks };
+}
+
+// Tells the agent, in words it cannot mistake for an instruction, that the feedback loop is over
+function formatTerminationNotice(keyword: string, config: ServerConfig): string {
+  return `SESSION ENDED: the user ended the feedback loop with "${keyword}". ` +
+    `Do not call ${config.toolPrefix}get_feedback or ${config.toolPrefix}ask_user again; the task is complete.`;
+}
+
+// Result of a blocking call made after the user ended the session. It is not an error result,
+// so agents told to retry failed calls do not keep calling.
+function buildTerminatedResponse(channel: FeedbackChannel, config: ServerConfig) {
+  const keyword = channel.terminated?.keyword ?? '';
+  const structuredContent = { status: 'terminated', terminate: true, keyword, endedAt: channel.terminated?.at };
   return {
-    content: [{ type: "text", text: content }],
+    content: [
+      { type: "text", text: formatTerminationNotice(keyword, config) },
+      { type: "text", text: JSON.stringify(structuredContent, null, 2) },
+    ],
+    structuredContent,
   };
 }
 
-// Server setup
+// Ends a channel's feedback session after the user wrote a termination keyword: cancels its other
+// pending waits and releases the file watchers no other channel uses. Blocking tools are refused
+// until a new client initializes on the channel.
+function endChannelSession(channel: FeedbackChannel, keyword: string) {
+  channel.terminated = { keyword, at: new Date().toISOString() };
+  const cancelled = cancelWaiters(channel.waitingForFileChange);
+
+  for (const filePath of channel.lastFileHashByPath.keys()) {
+    const watchedElsewhere = [...channels.values()].some(other => other !== channel && other.lastFileHashByPath.has(filePath));
+    if (!watchedElsewhere) {
+      fileWatchers.get(filePath)?.close();
+      fileWatchers.delete(filePath);
+    }
+  }
+  channel.lastFileHashByPath.clear();
+  channel.initialized = false;
+  console.error(`Channel ${channel.name} ended by the user with "${keyword}": ${cancelled} pending waits cancelled, watchers released`);
+}
 
-const server = new Server(
-  {
-    name: "tasksync-server",
-    version: "1.0.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-      logging: {}, // Enable logging for notifications
-    },
-  },
-);
-
-// Lazy initialization for file watcher
-async function ensureInitialized() {
-  if (isInitialized) return;
-  console.error("Initializing TaskSync server components...");
-  await setupFileWatcher(path.join(process.cwd(), 'feedback.md'), true);
-  isInitialized = true;
+// Builds the get_feedback result for a wait that ended without feedback, according to --on-timeout
+// and the --max-idle budget left since the last delivery to any file of the group.
+function buildTimeoutResponse(channel: FeedbackChannel, filePath: string, timeoutMs: number, elapsedMs: number, config: ServerConfig, groupPaths: string[] = [filePath]) {
+  const lastDeliveredAt = Math.max(...groupPaths.map(p => channel.lastDeliveredAtByPath.get(p) ?? serverStartedAt));
+  return buildTimeoutResult({ mode: onTimeout, maxIdleMs: maxIdle }, {
+    path: path.relative(process.cwd(), filePath) || filePath,
+    timeoutMs,
+    elapsedMs,
+    idleMs: Date.now() - lastDeliveredAt,
+    getFeedbackTool: `${config.toolPrefix}get_feedback`,
+  });
+}
+
+// Result for a wait the client cancelled. The SDK does not send responses to cancelled
+// requests, so this mainly keeps the handler's return type uniform.
+function buildCancelledResponse(filePath: string) {
+  return {
+    content: [{ type: "text", text: "Wait for feedback cancelled by the client." }],
+    structuredContent: { status: 'cancelled', path: path.relative(process.cwd(), filePath) || filePath },
+  };
+}
+
+// Appends text written by the server itself to a file. If the file is a watched feedback
+// file, the change is recorded as already seen so it neither resolves the agent's own
+// pending waits nor shows up as new content in its next delta.
+async function appendWithoutNotifying(channel: FeedbackChannel, filePath: string, text: string): Promise<string> {
+  let previous = '';
+  try {
+    previous = await readFileContent(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+  const next = previous + text;
+
+  // Files the channel does not watch (such as status.md) must not become watched feedback files
+  channel.lastFileHashByPath.has(filePath) && channel.lastFileHashByPath.set(filePath, hashContent(next));
+  await fs.appendFile(filePath, text, 'utf-8');
+  channel.lastDeliveredContentByPath.get(filePath) === previous && channel.lastDeliveredContentByPath.set(filePath, next);
+  return next;
+}
+
+// Marks the answer to an ask_user question as delivered, so the ticked box does not come back as
+// new feedback on the next get_feedback call. Other edits since the last delivery stay undelivered.
+function markAnswerDelivered(channel: FeedbackChannel, filePath: string, previous: string, content: string, config: ServerConfig) {
+  const delivered = channel.deliveredBlockHashesByPath.get(filePath) ?? new Set<string>();
+  const questions = parseFeedback(content, delivered, config.terminationKeywords).blocks.filter(block => block.kind === 'question');
+  channel.deliveredBlockHashesByPath.set(filePath, new Set([...delivered, ...questions.map(block => block.hash)]));
+  channel.lastDeliveredContentByPath.get(filePath) === previous && channel.lastDeliveredContentByPath.set(filePath, content);
+}
+
+// Records the current content of a feedback file as seen without delivering it, so the next call
+// reports only what changes from here on (new blocks, deltas) and does not count it as a first call.
+function markContentSeen(channel: FeedbackChannel, filePath: string, content: string, config: ServerConfig) {
+  const blocks = parseFeedback(content, undefined, config.terminationKeywords).blocks;
+  channel.deliveredBlockHashesByPath.set(filePath, new Set(blocks.map(block => block.hash)));
+  channel.lastDeliveredContentByPath.set(filePath, content);
+}
+
+// A directory or glob get_feedback path: the directory to search and the pattern files must match
+interface FeedbackGroup {
+  root: string;
+  pattern: string;
+}
+
+// Lists the files of a feedback group, validating every match against the allowed directories.
+async function findFeedbackFiles(root: string, pattern: string): Promise<string[]> {
+  const matches = await searchFilesWithValidation(root, pattern, { excludePatterns: FEEDBACK_SEARCH_EXCLUDES });
+  const files: string[] = [];
+  for (const match of matches.sort()) {
+    const validPath = await validatePath(match);
+    (await fs.stat(validPath)).isFile() && files.push(validPath);
+  }
+  if (files.length === 0) {
+    throw new Error(`No feedback files match ${pattern} in ${root}`);
+  }
+  return files;
+}
+
+// Expands a get_feedback path into the feedback files it refers to: the file itself, every
+// markdown file below a directory, or every file matching a glob. For a directory or glob the
+// group (base directory and pattern) is returned too, so it can be expanded again later.
+async function resolveFeedbackPaths(requestedPath: string): Promise<{ paths: string[]; group: FeedbackGroup | null }> {
+  const { base, pattern } = splitGlobPattern(requestedPath);
+  if (pattern) {
+    const root = await validatePath(base);
+    return { paths: await findFeedbackFiles(root, pattern), group: { root, pattern } };
+  }
+
+  const validPath = await validatePath(requestedPath);
+  const stats = await fs.stat(validPath).catch(() => null);
+  if (stats?.isDirectory()) {
+    const group = { root: validPath, pattern: DIRECTORY_FEEDBACK_PATTERN };
+    return { paths: await findFeedbackFiles(validPath, DIRECTORY_FEEDBACK_PATTERN), group };
+  }
+  return { paths: [validPath], group: null };
+}
+
+// Returns the channel of a session, creating it on first use
+function getChannel(name: string): FeedbackChannel {
+  let channel = channels.get(name);
+  if (!channel) {
+    channel = createFeedbackChannel(name, process.cwd());
+    channels.set(name, channel);
+    console.error(`Created feedback channel ${name} for ${channel.feedbackPath}`);
+  }
+  return channel;
+}
+
+// Lazy initialization for a channel's file watcher
+async function ensureInitialized(channel: FeedbackChannel) {
+  if (channel.initialized || channel.terminated) return;
+  console.error(`Initializing TaskSync channel ${channel.name}...`);
+  await setupFileWatcher(channel, channel.feedbackPath, true);
+  channel.initialized = true;
   console.error("TaskSync server initialized successfully");
 }
 
 // File watching functions
-async function setupFileWatcher(filePath: string, createIfMissing: boolean = false) {
+async function setupFileWatcher(channel: FeedbackChannel, filePath: string, createIfMissing: boolean = false) {
   try {
     // Check if file exists, create if it doesn't
     try {
@@ -169,16 +597,25 @@ async function setupFileWatcher(filePath: string, createIfMissing: boolean = fal
       await fs.writeFile(filePath, 'No review content yet.');
     }
 
-    // Get initial modification time and setup watcher
-    const stats = await fs.stat(filePath);
-    const mtime = stats.mtime.getTime();
-    lastFileModifiedByPath.set(filePath, mtime);
-    console.error(`Initial file modification time for ${filePath}: ${mtime}`);
+    if (!channel.lastFileHashByPath.has(filePath)) {
+      // Record the initial content hash for this channel
+      const hash = hashContent(await readFileContent(filePath));
+      channel.lastFileHashByPath.set(filePath, hash);
+      console.error(`Initial content hash for ${filePath} in channel ${channel.name}: ${hash}`);
+
+      // The file is now one of the channel's resources
+      await Promise.allSettled([...channel.servers.keys()].map(server =>
+        server.sendResourceListChanged().catch(error => console.error(`Failed to send resource list change: ${error}`))
+      ));
+    }
 
     if (!fileWatchers.has(filePath)) {
-      const watcher = watch(filePath, async (eventType) => {
-        console.error(`File watcher event: ${eventType} for ${filePath}`);
-        eventType === 'change' && await notifyClientsOfFileChange(filePath);
+      const watcher = watchFile(filePath, () => notifyClientsOfFileChange(filePath), {
+        debounceMs,
+        onError: error => {
+          recordWatcherError(metrics);
+          console.error(`File watcher error for ${filePath}: ${error}`);
+        },
       });
       fileWatchers.set(filePath, watcher);
       console.error(`File watcher setup successfully for: ${filePath}`);
@@ -189,52 +626,142 @@ async function setupFileWatcher(filePath: string, createIfMissing: boolean = fal
   }
 }
 
-async function notifyClientsOfFileChange(filePath: string) {
+// Routes a change of a watched file to the channels watching it. Returns the number of waiting calls resolved.
+async function notifyClientsOfFileChange(filePath: string): Promise<number> {
+  let totalResolved = 0;
   try {
-    const stats = await fs.stat(filePath);
-    const currentModified = stats.mtime.getTime();
-
-    if (lastFileModifiedByPath.get(filePath) === currentModified) return;
-
-    console.error(`File change detected for ${filePath}: ${lastFileModifiedByPath.get(filePath)} -> ${currentModified}`);
-    lastFileModifiedByPath.set(filePath, currentModified);
     const content = await readFileContent(filePath);
-
-    // Resolve waiting calls and filter remaining
-    const { resolved, remaining } = waitingForFileChange.reduce(
-      (acc, item) => {
-        item.path === filePath ? (item.resolve(content), acc.resolved++) : acc.remaining.push(item);
-        return acc;
-      },
-      { resolved: 0, remaining: [] as typeof waitingForFileChange }
-    );
-    
-    waitingForFileChange.splice(0, waitingForFileChange.length, ...remaining);
-    console.error(`Resolving ${resolved} waiting calls for ${filePath}`);
-
-    // Send notifications to all connected clients
-    const notifications = connectedTransports.size;
-    await Promise.allSettled([...connectedTransports].map(transport =>
-      transport.send({
-        jsonrpc: "2.0",
-        method: "notifications/message",
-        params: {
-          level: "info",
-          logger: "tasksync-server",
-          data: {
-            type: "file_changed",
-            path: path.relative(process.cwd(), filePath) || filePath,
-            content,
-            timestamp: new Date().toISOString()
+    const currentHash = hashContent(content);
+
+    for (const channel of channels.values()) {
+      // Skip channels not watching this file, and unchanged content: a duplicate event,
+      // a touch, or a write made by the server itself
+      const lastHash = channel.lastFileHashByPath.get(filePath);
+      if (lastHash === undefined || lastHash === currentHash) continue;
+
+      console.error(`File change detected for ${filePath} in channel ${channel.name}: ${lastHash} -> ${currentHash}`);
+      channel.lastFileHashByPath.set(filePath, currentHash);
+
+      // Resolve waiting calls (each waiter removes itself from the queue)
+      const resolved = resolveWaiters(channel.waitingForFileChange, filePath, content);
+      totalResolved += resolved;
+      console.error(`Resolving ${resolved} waiting calls for ${filePath}`);
+
+      // Send notifications only to the clients of this channel
+      const notifications = channel.transports.size;
+      await Promise.allSettled([...channel.transports].map(transport =>
+        transport.send({
+          jsonrpc: "2.0",
+          method: "notifications/message",
+          params: {
+            level: "info",
+            logger: "tasksync-server",
+            data: {
+              type: "file_changed",
+              path: path.relative(process.cwd(), filePath) || filePath,
+              content,
+              timestamp: new Date().toISOString()
+            }
           }
-        }
-      }).catch(error => console.error(`Failed to send notification to client: ${error}`))
-    ));
+        }).catch(error => console.error(`Failed to send notification to client: ${error}`))
+      ));
+
+      // Standard resource update notifications for the clients subscribed to this file
+      const uri = feedbackResourceUri(filePath, process.cwd());
+      const subscribers = [...channel.servers].filter(([, uris]) => uris.has(uri)).map(([server]) => server);
+      await Promise.allSettled(subscribers.map(server =>
+        server.sendResourceUpdated({ uri }).catch(error => console.error(`Failed to send resource update: ${error}`))
+      ));
 
-    console.error(`File change notification sent to ${notifications} clients and ${resolved} waiting calls resolved for ${filePath}`);
+      console.error(`File change notification sent to ${notifications} clients (${subscribers.length} subscribed) and ${resolved} waiting calls resolved for ${filePath}`);
+    }
   } catch (error) {
     console.error(`Error in notifyClientsOfFileChange: ${error}`);
   }
+  return totalResolved;
+}
+
+// Queues a tool call on a channel until one of the files changes, recording the wait in the metrics
+async function waitForFeedback(channel: FeedbackChannel, filePaths: string | string[], timeoutMs: number, signal: AbortSignal, tool: string) {
+  const startedAt = Date.now();
+  const result = await waitForFileChange(channel.waitingForFileChange, filePaths, timeoutMs, signal, tool);
+  recordWait(metrics, result.status, Date.now() - startedAt);
+  return result;
+}
+
+// Watches the base directory of a feedback group while a call waits on it, so files matching the
+// group after it was expanded join the wait: each one is added to the waited paths (the array the
+// waiter holds) and delivered right away, since none of it has been delivered yet.
+function watchFeedbackGroup(channel: FeedbackChannel, group: FeedbackGroup, feedbackPaths: string[]): FileWatcherHandle {
+  const onChange = async () => {
+    const matches = await findFeedbackFiles(group.root, group.pattern).catch(() => []);
+    for (const match of matches.filter(match => !feedbackPaths.includes(match))) {
+      feedbackPaths.push(match);
+      await setupFileWatcher(channel, match, false);
+      resolveWaiters(channel.waitingForFileChange, match, await readFileContent(match));
+    }
+  };
+  return watchDirectory(group.root, () => {
+    onChange().catch(error => console.error(`Failed to expand feedback group ${group.pattern} in ${group.root}: ${error}`));
+  }, {
+    debounceMs,
+    // Patterns without a separator only match files directly in the base directory
+    recursive: group.pattern.includes('/'),
+    onError: error => {
+      recordWatcherError(metrics);
+      console.error(`Directory watcher error for ${group.root}: ${error}`);
+    },
+  });
+}
+
+// Loads the server config of a channel: --config, else .tasksync/config.json of the allowed
+// directory holding the feedback file. Read on every request so edits apply without a restart.
+async function loadChannelConfig(channel: FeedbackChannel): Promise<ServerConfig> {
+  if (configFile) {
+    return loadServerConfig(configFile);
+  }
+  const channelConfigFile = path.join(getStateDirectory(channel.feedbackPath, allowedDirectories), CONFIG_FILE);
+  try {
+    await fs.access(channelConfigFile);
+  } catch {
+    return DEFAULT_SERVER_CONFIG;
+  }
+  return loadServerConfig(await validatePath(channelConfigFile));
+}
+
+// Loads the feedback-loop prompts of a channel: the built-in variants, overridden by the team
+// prompt file (.tasksync/prompts.json) of the allowed directory holding the feedback file
+async function loadChannelPrompts(channel: FeedbackChannel) {
+  const promptFile = path.join(getStateDirectory(channel.feedbackPath, allowedDirectories), PROMPTS_FILE);
+  try {
+    await fs.access(promptFile);
+  } catch {
+    return DEFAULT_PROMPTS;
+  }
+  return loadPrompts(await validatePath(promptFile));
+}
+
+// Sends notifications/progress with the elapsed time and watched path at a fixed interval while
+// a call waits, so clients can show the wait and do not cancel the call as hung. Returns a stop function.
+function startProgressNotifications(extra: ToolExtra, progressToken: ProgressToken | undefined, filePath: string, timeoutMs: number): () => void {
+  if (progressToken === undefined || progressInterval <= 0) return () => {};
+
+  const startedAt = Date.now();
+  const displayPath = path.relative(process.cwd(), filePath) || filePath;
+  const timer = setInterval(() => {
+    const elapsedMs = Date.now() - startedAt;
+    extra.sendNotification({
+      method: "notifications/progress",
+      params: {
+        progressToken,
+        progress: elapsedMs,
+        total: timeoutMs,
+        message: `Waiting for your feedback in ${displayPath} (${Math.round(elapsedMs / 1000)}s elapsed)`,
+      },
+    }).catch(error => console.error(`Failed to send progress notification: ${error}`));
+  }, progressInterval);
+
+  return () => clearInterval(timer);
 }
 
 // Reads a file as a stream of buffers, concatenates them, and then encodes
@@ -255,230 +782,575 @@ async function readFileAsBase64Stream(filePath: string): Promise<string> {
   });
 }
 
-// Tool handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+// Describes an image for the agent, e.g. "4000x3000, 12.1 MB, downscaled to 2048x1536 (812 KB image/webp)"
+function describeScaledImage(image: ScaledImage): string {
+  const dimensions = (width: number | null, height: number | null) => width !== null && height !== null ? `${width}x${height}` : 'unknown size';
+  const original = `${dimensions(image.originalWidth, image.originalHeight)}, ${formatBytes(image.originalBytes)}`;
+  return image.scaled
+    ? `${original}, downscaled to ${dimensions(image.width, image.height)} (${formatBytes(image.data.length)} ${image.mimeType})`
+    : original;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Rejects files over --max-media-size before they are loaded
+async function checkMediaSize(validPath: string, displayPath: string, tool: string) {
+  const { size } = await fs.stat(validPath);
+  if (size > maxMediaSize) {
+    throw new Error(`${displayPath} is ${formatBytes(size)}, over the ${formatBytes(maxMediaSize)} limit for ${tool} (--max-media-size)`);
+  }
+}
+
+// Builds the view_media result for an image: the image (or a region of it, or the image with a tile
+// grid drawn over it), downscaled to the limits, and a text block with its metadata
+async function buildImageResponse(validPath: string, displayPath: string, mimeType: string, options: ViewMediaArgs, limits: ImageLimits, config: ServerConfig) {
+  const original = await fs.readFile(validPath);
+  const info = await readImageInfo(original);
+  let data = original;
+  let region: ImageRegion | null = null;
+  let tiles: ImageTile[] | null = null;
+
+  if (options.crop || options.grid) {
+    if (!info) {
+      throw new Error(`Cannot crop or split ${mimeType} images`);
+    }
+    if (options.grid) {
+      tiles = getGridTiles(info.width, info.height, options.grid);
+      region = options.tile !== undefined ? findTile(tiles, options.tile).region : null;
+    } else {
+      region = options.crop ?? null;
+    }
+    if (region) {
+      assertRegionInImage(region, info.width, info.height);
+      data = await extractRegion(original, region);
+    } else if (tiles) {
+      data = await drawGrid(original, info, tiles);
+    }
+  }
+  const image = await scaleImage(data, data === original ? mimeType : "image/png", limits);
+
+  const lines = [
+    info
+      ? `${displayPath}: ${info.format} ${info.width}x${info.height}, ${formatBytes(original.length)}, EXIF orientation ${describeOrientation(info.orientation)}`
+      : `${displayPath}: ${mimeType}, ${formatBytes(original.length)}`,
+  ];
+  if (region) {
+    lines.push(`${options.tile !== undefined ? `Tile ${options.tile.trim().toUpperCase()}: ` : 'Region: '}${region.width}x${region.height} at (${region.x}, ${region.y})`);
+  } else if (tiles) {
+    lines.push(`Tiles: ${tiles.map(tile => `${tile.label} ${tile.region.width}x${tile.region.height} at (${tile.region.x}, ${tile.region.y})`).join('; ')}`);
+    lines.push(`Call ${config.toolPrefix}view_media again with the same grid and a tile (e.g. "B2") to see one tile at full resolution.`);
+  }
+  if (image.scaled) {
+    lines.push(`Returned: ${describeScaledImage(image)}`);
+  }
+
+  const structuredContent = {
+    path: displayPath,
+    format: info?.format ?? null,
+    orientation: info?.orientation ?? null,
+    mimeType: image.mimeType,
+    width: image.width,
+    height: image.height,
+    bytes: image.data.length,
+    originalWidth: info?.width ?? image.originalWidth,
+    originalHeight: info?.height ?? image.originalHeight,
+    originalBytes: original.length,
+    scaled: image.scaled,
+    region,
+    tiles,
+  };
   return {
-    tools: [
-      {
-        name: "get_feedback",
-        description:
-          "Read the contents of a feedback.md file (defaults to ./feedback.md). Before calling this tool you must seearch for the feedback.md file." +
-          "If the feedback file does not exist, you will automatically create an empty feedback.md file before attempting to use this tool. " +
-          "During any process, task, or conversation, whether asking, replying, or completing phased tasks, you must call this tool to check for review. " +
-          "Only when the user explicitly indicates <end or no more interaction needed> can you stop calling this tool, and the process is considered complete.\n\n" +
-          "MANDATORY USAGE RULES -PRIMARY DIRECTIVE:\n" +
-          "1. CONTINUOUS FEEDBACK LOOP: During any process, task, or conversation, whether asking, replying, or completing phased tasks, you MUST call this tool to check for feedback.\n" +
-          "2. NO STOPPING WITHOUT PERMISSION: Unless receiving explicit termination instructions (\"end\", \"stop\", \"no more interaction needed\"), ALL steps must repeatedly call this tool.\n" +
-          "3. RESPOND TO FEEDBACK: Whenever user feedback is received, if the feedback content is not empty, you MUST call this tool again and adjust behavior based on the feedback content.\n" +
-          "4. TERMINATION CONDITIONS: Only when the user explicitly indicates \"end\", \"stop\", \"finished\", or \"no more interaction needed\" can you stop calling this tool.\n" +
-          "5. PROVIDE CONTEXT: You should summarize what you have done and provide project context to help the user provide meaningful feedback for the next step.\n" +
-          "6. KEEP ITERATING: If the user provides feedback, suggestions, or asks questions, continue the feedback loop by calling this tool again after addressing their input.\n" +
-          "7. NEVER ASSUME COMPLETION: Do not assume a task is complete without explicit user confirmation through this feedback mechanism.\n\n",
-        
-        inputSchema: zodToJsonSchema(AskReviewArgsSchema) as ToolInput,
-      },
-      {
-        name: "view_media",
-        description:
-          "Read an image file. Returns the base64 encoded data and MIME type. " +
-          "Only works within allowed directories.\n\n" +
-          "SUPPORTED FORMATS:\n" +
-          "Images: PNG, JPEG, GIF, WebP, BMP, SVG\n\n" +
-          "USAGE:\n" +
-          "Use this tool to read and encode image files for analysis, display, or processing. " +
-          "The tool streams files efficiently and returns base64-encoded data with proper MIME type detection.\n\n" +
-          "Args:\n" +
-          "    path: Absolute or relative path to the image file within allowed directories",
-        inputSchema: zodToJsonSchema(ReadImageFileArgsSchema) as ToolInput,
-      },
+    content: [
+      { type: "image", data: image.data.toString('base64'), mimeType: image.mimeType },
+      { type: "text", text: lines.join('\n') },
     ],
+    structuredContent,
   };
-});
+}
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  try {
-    // Ensure server is initialized on first tool call
-    await ensureInitialized();
-    
-    const { name, arguments: args } = request.params;
-
-    switch (name) {
-      case "get_feedback": {
-        const parsed = AskReviewArgsSchema.safeParse(args);
-        if (!parsed.success) {
-          throw new Error(`Invalid arguments for get_feedback: ${parsed.error}`);
-        }
-        // Determine path: use provided path if any, else default to ./feedback.md
-        const targetPath = parsed.data.path || path.join(process.cwd(), 'feedback.md');
-        
-        // Create feedback.md file if it doesn't exist (only for default feedback.md, not custom paths)
-        if (!parsed.data.path) {
-          try {
-            await fs.access(targetPath);
-          } catch (error) {
-            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-              try {
-                await fs.writeFile(targetPath, '', 'utf-8');
-                console.error(`Created missing feedback file: ${targetPath}`);
-              } catch (writeError) {
-                console.error(`Failed to create feedback file: ${writeError}`);
-                throw new Error(`Could not create feedback file: ${targetPath}`);
+// Builds the view_media result for rendered PDF pages or video keyframes: a label before each PNG
+// so the agent can refer to them by number
+async function buildExtractedImagesResponse(displayPath: string, label: string, images: ExtractedImage[], limits: ImageLimits) {
+  if (images.length === 0) {
+    throw new Error(`No ${label.toLowerCase()}s in the selected range of ${displayPath}`);
+  }
+  const first = images[0].index;
+  const last = images[images.length - 1].index;
+  const content: { type: string; text?: string; data?: string; mimeType?: string }[] = [
+    { type: "text", text: `${displayPath}: ${label.toLowerCase()}s ${first}-${last}` },
+  ];
+  for (const image of images) {
+    const scaled = await scaleImage(image.data, "image/png", limits);
+    content.push(
+      { type: "text", text: `${label} ${image.index}: ${describeScaledImage(scaled)}` },
+      { type: "image", data: scaled.data.toString('base64'), mimeType: scaled.mimeType },
+    );
+  }
+  return { content };
+}
+
+// Updates allowed directories based on MCP client roots
+async function updateAllowedDirectoriesFromRoots(requestedRoots: Root[]) {
+  const validatedRootDirs = await getValidRootDirectories(requestedRoots);
+  if (validatedRootDirs.length > 0) {
+    allowedDirectories = [...validatedRootDirs];
+    setAllowedDirectories(allowedDirectories); // Update the global state in lib.ts
+    console.error(`Updated allowed directories from MCP roots: ${validatedRootDirs.length} valid directories`);
+  } else {
+    console.error("No valid root directories provided by client");
+  }
+}
+
+// Server setup
+
+// Creates an MCP server bound to a feedback channel. Each connection gets its own server,
+// so requests, responses and notifications of concurrent sessions never cross.
+function createServer(channel: FeedbackChannel): Server {
+  const server = new Server(
+    {
+      name: "tasksync-server",
+      version: "1.0.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
+        logging: {}, // Enable logging for notifications
+      },
+    },
+  );
+
+  // Resource URIs this client subscribed to, notified when the watcher routes a change to the channel
+  const subscriptions = new Set<string>();
+  channel.servers.set(server, subscriptions);
+  server.onclose = () => {
+    channel.servers.delete(server);
+  };
+
+  // Tool handlers
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    const config = await loadChannelConfig(channel);
+    const descriptions = getToolDescriptions(config);
+    return {
+      tools: TOOL_NAMES.map(name => ({
+        name: config.toolPrefix + name,
+        description: descriptions[name],
+        inputSchema: zodToJsonSchema(TOOL_SCHEMAS[name]) as ToolInput,
+      })),
+    };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    try {
+      // Ensure server is initialized on first tool call
+      await ensureInitialized(channel);
+
+      const config = await loadChannelConfig(channel);
+      const { arguments: args } = request.params;
+      const name = resolveToolName(request.params.name, config);
+      if (!name) {
+        throw new Error(`Unknown tool: ${request.params.name}`);
+      }
+      recordToolCall(metrics, name);
+      const sessionId = extra.sessionId ?? processSessionId;
+
+      switch (name) {
+        case "get_feedback": {
+          const parsed = AskReviewArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for get_feedback: ${parsed.error}`);
+          }
+          if (channel.terminated) {
+            return buildTerminatedResponse(channel, config);
+          }
+          // Determine path: use provided path if any, else default to the channel's feedback file
+          const targetPath = parsed.data.path || channel.feedbackPath;
+
+          // Create the feedback file if it doesn't exist (only for the default file, not custom paths)
+          if (!parsed.data.path) {
+            try {
+              await fs.access(targetPath);
+            } catch (error) {
+              if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                try {
+                  await fs.writeFile(targetPath, '', 'utf-8');
+                  console.error(`Created missing feedback file: ${targetPath}`);
+                } catch (writeError) {
+                  console.error(`Failed to create feedback file: ${writeError}`);
+                  throw new Error(`Could not create feedback file: ${targetPath}`);
+                }
               }
             }
           }
-        }
-        
-        const validPath = await validatePath(targetPath);
-        const stats = await fs.stat(validPath);
-        const currentModified = stats.mtime.getTime();
 
-        // Ensure a watcher exists for this path (do not create file if missing)
-        await setupFileWatcher(validPath, false);
+          const { paths: feedbackPaths, group } = await resolveFeedbackPaths(targetPath);
+          const isGroup = group !== null;
+          const waitLabel = isGroup ? targetPath : feedbackPaths[0];
+          // The first call for a group records what its files not seen before already hold, rather
+          // than returning each existing file (README.md and the like) as feedback; later calls
+          // return files that appeared since as new
+          const groupKey = group && path.join(group.root, group.pattern);
+          if (groupKey !== null && !channel.knownGroups.has(groupKey)) {
+            for (const feedbackPath of feedbackPaths) {
+              if (channel.lastDeliveredContentByPath.has(feedbackPath) || channel.lastFileHashByPath.has(feedbackPath)) continue;
+              markContentSeen(channel, feedbackPath, await readFileContent(feedbackPath), config);
+            }
+            channel.knownGroups.add(groupKey);
+          }
+
+          for (const feedbackPath of feedbackPaths) {
+            // Compare against what was last delivered, so edits made while the agent was busy are not missed
+            const lastDelivered = channel.lastDeliveredContentByPath.get(feedbackPath);
+            const lastKnown = lastDelivered !== undefined ? hashContent(lastDelivered) : channel.lastFileHashByPath.get(feedbackPath) ?? null;
 
-        const lastKnown = lastFileModifiedByPath.get(validPath) ?? null;
-        console.error(`check_review: Current file modified: ${currentModified}, Last known: ${lastKnown}`);
+            // Ensure a watcher exists for this path (do not create file if missing)
+            await setupFileWatcher(channel, feedbackPath, false);
 
-        // If this is the first call or file has changed, return content immediately
-        if (lastKnown === null || lastKnown < currentModified) {
-          console.error("check_review: File has changed, returning content immediately");
-          lastFileModifiedByPath.set(validPath, currentModified);
+            const currentContent = await readFileContent(feedbackPath);
+            const currentHash = hashContent(currentContent);
+            console.error(`check_review: ${feedbackPath} content hash: ${currentHash}, Last known: ${lastKnown}`);
 
-          if (parsed.data.head && parsed.data.tail) {
-            throw new Error("Cannot specify both head and tail parameters simultaneously");
+            // If this is the first call or file has changed, return content immediately
+            if (lastKnown === null || lastKnown !== currentHash) {
+              console.error("check_review: File has changed, returning content immediately");
+              return await buildFeedbackResponse(channel, feedbackPath, currentContent, parsed.data, sessionId, config, isGroup);
+            }
           }
 
-          const content = parsed.data.tail ? await tailFile(validPath, parsed.data.tail)
-                        : parsed.data.head ? await headFile(validPath, parsed.data.head)
-                        : await readFileContent(validPath);
+          // No file has changed - wait for the first change using file watchers
+          console.error("check_review: File hasn't changed, waiting for modification...");
+          const timeoutMs = parsed.data.timeoutMs ?? feedbackTimeout;
+          const waitStartedAt = Date.now();
+          const stopProgress = startProgressNotifications(extra, request.params._meta?.progressToken, waitLabel, timeoutMs);
+          const groupWatcher = group && watchFeedbackGroup(channel, group, feedbackPaths);
+          const result = await waitForFeedback(channel, feedbackPaths, timeoutMs, extra.signal, name).finally(() => {
+            stopProgress();
+            groupWatcher?.close();
+          });
+          if (result.status === 'cancelled') {
+            return channel.terminated ? buildTerminatedResponse(channel, config) : buildCancelledResponse(waitLabel);
+          }
+          if (result.status === 'timeout') {
+            return buildTimeoutResponse(channel, waitLabel, timeoutMs, Date.now() - waitStartedAt, config, feedbackPaths);
+          }
 
-          return { content: [{ type: "text", text: content }] };
+          return await buildFeedbackResponse(channel, result.path, result.content, parsed.data, sessionId, config, isGroup);
         }
 
-        // File hasn't changed - wait for file change using file watcher
-        console.error("check_review: File hasn't changed, waiting for modification...");
-        console.error(`check_review: Current waiting queue size: ${waitingForFileChange.length}`);
-        
-        const content = await new Promise<string>((resolve, reject) => {
-          const timeout = setTimeout(() => {
-            const index = waitingForFileChange.findIndex(w => w.resolve === resolve);
-            if (index !== -1) {
-              waitingForFileChange.splice(index, 1);
-            }
-            console.error(`check_review: Timeout reached after ${feedbackTimeout}ms`);
-            reject(new Error(`Timeout waiting for file change (${feedbackTimeout}ms)`));
-          }, feedbackTimeout);
-
-          console.error("check_review: Adding to waiting queue");
-          waitingForFileChange.push({
-            path: validPath,
-            resolve: (content: string) => {
-              console.error("check_review: Promise resolved with content");
-              clearTimeout(timeout);
-              resolve(content);
-            },
-            reject: (error: Error) => {
-              console.error(`check_review: Promise rejected with error: ${error.message}`);
-              clearTimeout(timeout);
-              reject(error);
-            }
+        case "get_feedback_history": {
+          const parsed = GetFeedbackHistoryArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for get_feedback_history: ${parsed.error}`);
+          }
+          const feedbackPath = parsed.data.path
+            ? await validatePath(parsed.data.path)
+            : channel.feedbackPath;
+          const page = await readHistory(getHistoryPath(feedbackPath, allowedDirectories), {
+            ...parsed.data,
+            path: parsed.data.path ? feedbackPath : undefined,
           });
-          console.error(`check_review: Updated waiting queue size: ${waitingForFileChange.length}`);
-        });
+          return {
+            content: [{ type: "text", text: JSON.stringify(page, null, 2) }],
+            structuredContent: { ...page },
+          };
+        }
 
-        return formatResponseWithHeadTail(content, parsed.data.head, parsed.data.tail);
+        case "post_status": {
+          const parsed = PostStatusArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for post_status: ${parsed.error}`);
+          }
+          // status.md is only written next to a feedback file, never next to an arbitrary one
+          const feedbackPath = await validatePath(parsed.data.path || channel.feedbackPath);
+          assertFeedbackTarget(feedbackPath);
+          const validPath = parsed.data.target === 'feedback'
+            ? feedbackPath
+            : await validatePath(path.join(path.dirname(feedbackPath), 'status.md'));
+          const timestamp = new Date().toISOString();
+
+          await appendWithoutNotifying(channel, validPath, formatStatusSection(parsed.data.message, timestamp));
+
+          const displayPath = path.relative(process.cwd(), validPath) || validPath;
+          return {
+            content: [{ type: "text", text: `Status posted to ${displayPath} at ${timestamp}` }],
+            structuredContent: { path: displayPath, timestamp },
+          };
+        }
 
-        
-      }
+        case "ask_user": {
+          const parsed = AskUserArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for ask_user: ${parsed.error}`);
+          }
+          if (channel.terminated) {
+            return buildTerminatedResponse(channel, config);
+          }
+          const validPath = await validatePath(parsed.data.path || channel.feedbackPath);
+          assertFeedbackTarget(validPath);
+          const questionId = randomUUID().slice(0, 8);
+
+          let previous = await appendWithoutNotifying(channel, validPath, formatQuestionSection(questionId, parsed.data.question, parsed.data.options));
+          await setupFileWatcher(channel, validPath, false);
+          console.error(`ask_user: Waiting for an answer to question ${questionId} in ${validPath}`);
+
+          // Keep waiting through unrelated edits until one of the boxes is ticked
+          const deadline = Date.now() + feedbackTimeout;
+          const stopProgress = startProgressNotifications(extra, request.params._meta?.progressToken, validPath, feedbackTimeout);
+          let selected: SelectedOption | null = null;
+          try {
+            while (!selected) {
+              const result = await waitForFeedback(channel, validPath, Math.max(0, deadline - Date.now()), extra.signal, name);
+              if (result.status === 'cancelled') {
+                return channel.terminated ? buildTerminatedResponse(channel, config) : buildCancelledResponse(validPath);
+              }
+              if (result.status === 'timeout') {
+                throw new Error(`Timeout waiting for an answer to "${parsed.data.question}" (${feedbackTimeout}ms)`);
+              }
+              selected = findSelectedOption(result.content, questionId);
+              if (selected) {
+                markAnswerDelivered(channel, validPath, previous, result.content, config);
+              } else {
+                previous = result.content;
+              }
+            }
+          } finally {
+            stopProgress();
+          }
 
-      case "view_media": {
-        const parsed = ReadImageFileArgsSchema.safeParse(args);
-        if (!parsed.success) {
-          throw new Error(`Invalid arguments for view_media: ${parsed.error}`);
+          const structuredContent = { question: parsed.data.question, selected: selected.option, index: selected.index };
+          return {
+            content: [{ type: "text", text: JSON.stringify(structuredContent, null, 2) }],
+            structuredContent,
+          };
+        }
+
+        case "view_media": {
+          const parsed = ReadImageFileArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for view_media: ${parsed.error}`);
+          }
+          const validPath = await validatePath(parsed.data.path);
+          const mediaType = getMediaType(validPath);
+          const displayPath = path.relative(process.cwd(), validPath) || validPath;
+          await checkMediaSize(validPath, displayPath, `${config.toolPrefix}view_media`);
+          const limits: ImageLimits = {
+            maxWidth: parsed.data.maxWidth ?? DEFAULT_IMAGE_LIMITS.maxWidth,
+            maxHeight: parsed.data.maxHeight ?? DEFAULT_IMAGE_LIMITS.maxHeight,
+            maxBytes: parsed.data.maxBytes ?? DEFAULT_IMAGE_LIMITS.maxBytes,
+          };
+
+          if (mediaType?.kind === 'pdf') {
+            const pages = await renderPdfPages(validPath, parseMediaRange(parsed.data.pages));
+            return await buildExtractedImagesResponse(displayPath, 'Page', pages, limits);
+          }
+          if (mediaType?.kind === 'video' || (mediaType?.mimeType === 'image/gif' && parsed.data.frames !== undefined)) {
+            const frames = await extractKeyframes(validPath, parseMediaRange(parsed.data.frames));
+            return await buildExtractedImagesResponse(displayPath, 'Keyframe', frames, limits);
+          }
+          if (mediaType?.kind === 'image') {
+            return await buildImageResponse(validPath, displayPath, mediaType.mimeType, parsed.data, limits, config);
+          }
+
+          const mimeType = mediaType?.mimeType ?? "application/octet-stream";
+          const data = await readFileAsBase64Stream(validPath);
+          const type = mediaType?.kind === 'audio' ? "audio" : "blob";
+          return {
+            content: [{ type, data, mimeType }],
+          };
         }
-        const validPath = await validatePath(parsed.data.path);
-        const extension = path.extname(validPath).toLowerCase();
-        const mimeTypes: Record<string, string> = {
-          ".png": "image/png",
-          ".jpg": "image/jpeg",
-          ".jpeg": "image/jpeg",
-          ".gif": "image/gif",
-          ".webp": "image/webp",
-          ".bmp": "image/bmp",
-          ".svg": "image/svg+xml",
-        };
-        const mimeType = mimeTypes[extension] || "application/octet-stream";
-        const data = await readFileAsBase64Stream(validPath);
-        const type = mimeType.startsWith("image/") ? "image" : "blob";
-        return {
-          content: [{ type, data, mimeType }],
-        };
-      }
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+        case "compare_media": {
+          const parsed = CompareMediaArgsSchema.safeParse(args);
+          if (!parsed.success) {
+            throw new Error(`Invalid arguments for compare_media: ${parsed.error}`);
+          }
+          const [beforePath, afterPath] = await Promise.all([validatePath(parsed.data.before), validatePath(parsed.data.after)]);
+          const [beforeDisplay, afterDisplay] = [beforePath, afterPath].map(filePath => path.relative(process.cwd(), filePath) || filePath);
+          for (const [filePath, displayPath] of [[beforePath, beforeDisplay], [afterPath, afterDisplay]]) {
+            if (getMediaType(filePath)?.kind !== 'image') {
+              throw new Error(`${displayPath} is not an image`);
+            }
+            await checkMediaSize(filePath, displayPath, `${config.toolPrefix}compare_media`);
+          }
+
+          const threshold = parsed.data.threshold ?? DEFAULT_DIFF_THRESHOLD;
+          const comparison = await compareImages(await fs.readFile(beforePath), await fs.readFile(afterPath), threshold);
+          const diff = await scaleImage(comparison.diff, "image/png", DEFAULT_IMAGE_LIMITS);
+          const sizeMismatch = comparison.beforeSize.width !== comparison.afterSize.width || comparison.beforeSize.height !== comparison.afterSize.height;
+
+          const lines = [
+            `${beforeDisplay} -> ${afterDisplay}: ${comparison.changedPercent}% of pixels changed (${comparison.changedPixels} of ${comparison.width * comparison.height})`,
+          ];
+          if (comparison.scale < 1) {
+            lines.push(`Compared downscaled by ${comparison.scale.toFixed(2)} to stay within the pixel budget; counts and regions are scaled back to full-size pixels`);
+          }
+          if (sizeMismatch) {
+            lines.push(`Sizes differ: ${comparison.beforeSize.width}x${comparison.beforeSize.height} before, ${comparison.afterSize.width}x${comparison.afterSize.height} after; the area only one image covers counts as changed`);
+          }
+          if (comparison.regionCount > 0) {
+            lines.push(`Changed regions, largest first${comparison.regionCount > comparison.regions.length ? ` (${comparison.regions.length} of ${comparison.regionCount})` : ''}:`);
+            lines.push(...comparison.regions.map(region => `- ${region.width}x${region.height} at (${region.x}, ${region.y})`));
+          }
+          lines.push('Diff image: the after image faded, changed pixels in red, changed regions boxed in magenta' +
+            (diff.scaled || comparison.scale < 1 ? `, downscaled to ${diff.width}x${diff.height}; region coordinates refer to the full-size images.` : '.'));
+
+          const structuredContent = {
+            before: beforeDisplay,
+            after: afterDisplay,
+            width: comparison.width,
+            height: comparison.height,
+            beforeSize: comparison.beforeSize,
+            afterSize: comparison.afterSize,
+            threshold,
+            scale: comparison.scale,
+            changedPixels: comparison.changedPixels,
+            changedPercent: comparison.changedPercent,
+            regions: comparison.regions,
+            regionCount: comparison.regionCount,
+          };
+          return {
+            content: [
+              { type: "text", text: lines.join('\n') },
+              { type: "image", data: diff.data.toString('base64'), mimeType: diff.mimeType },
+            ],
+            structuredContent,
+          };
+        }
+
+        default:
+          throw new Error(`Unknown tool: ${request.params.name}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [{ type: "text", text: `Error: ${errorMessage}` }],
+        isError: true,
+      };
     }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
+  });
+
+  // Resource handlers: every feedback file watched for this channel is a tasksync://feedback/<path> resource
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    await ensureInitialized(channel);
     return {
-      content: [{ type: "text", text: `Error: ${errorMessage}` }],
-      isError: true,
+      resources: [...channel.lastFileHashByPath.keys()].map(filePath => ({
+        uri: feedbackResourceUri(filePath, process.cwd()),
+        name: path.relative(process.cwd(), filePath) || filePath,
+        description: "TaskSync feedback file",
+        mimeType: "text/markdown",
+      })),
     };
-  }
-});
+  });
 
-// Updates allowed directories based on MCP client roots
-async function updateAllowedDirectoriesFromRoots(requestedRoots: Root[]) {
-  const validatedRootDirs = await getValidRootDirectories(requestedRoots);
-  if (validatedRootDirs.length > 0) {
-    allowedDirectories = [...validatedRootDirs];
-    setAllowedDirectories(allowedDirectories); // Update the global state in lib.ts
-    console.error(`Updated allowed directories from MCP roots: ${validatedRootDirs.length} valid directories`);
-  } else {
-    console.error("No valid root directories provided by client");
-  }
-}
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const validPath = await validatePath(feedbackResourcePath(request.params.uri, process.cwd()));
+    return {
+      contents: [{ uri: request.params.uri, mimeType: "text/markdown", text: await readFileContent(validPath) }],
+    };
+  });
 
-// Handles dynamic roots updates during runtime, when client sends "roots/list_changed" notification, server fetches the updated roots and replaces all allowed directories with the new roots.
-server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
-  try {
-    // Request the updated roots list from the client
-    const response = await server.listRoots();
-    if (response && 'roots' in response) {
-      await updateAllowedDirectoriesFromRoots(response.roots);
-    }
-  } catch (error) {
-    console.error("Failed to request roots from client:", error instanceof Error ? error.message : String(error));
-  }
-});
+  // Subscribing also starts watching the file, so any feedback file in the allowed directories can be followed
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const validPath = await validatePath(feedbackResourcePath(request.params.uri, process.cwd()));
+    await setupFileWatcher(channel, validPath, false);
+    subscriptions.add(feedbackResourceUri(validPath, process.cwd()));
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(feedbackResourceUri(feedbackResourcePath(request.params.uri, process.cwd()), process.cwd()));
+    return {};
+  });
+
+  // Prompt handlers: the TaskSync agent rules as selectable prompts (strict-loop, ask-before-finishing, checkpoint-only)
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    const [prompts, config] = await Promise.all([loadChannelPrompts(channel), loadChannelConfig(channel)]);
+    const values = getPlaceholderValues(config);
+    return {
+      prompts: prompts.map(prompt => ({
+        name: prompt.name,
+        description: fillPlaceholders(prompt.description, values),
+        arguments: [{
+          name: "feedbackPath",
+          description: "Feedback file the agent should use. Defaults to the feedback file of this session.",
+          required: false,
+        }],
+      })),
+    };
+  });
 
-// Handles post-initialization setup, specifically checking for and fetching MCP roots.
-server.oninitialized = async () => {
-  const clientCapabilities = server.getClientCapabilities();
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const [prompts, config] = await Promise.all([loadChannelPrompts(channel), loadChannelConfig(channel)]);
+    const prompt = prompts.find(p => p.name === request.params.name);
+    if (!prompt) {
+      throw new Error(`Unknown prompt: ${request.params.name}. Available prompts: ${prompts.map(p => p.name).join(', ')}`);
+    }
+    const feedbackPath = request.params.arguments?.feedbackPath || path.relative(process.cwd(), channel.feedbackPath) || channel.feedbackPath;
+    const values = { ...getPlaceholderValues(config), feedbackPath };
+    return {
+      description: fillPlaceholders(prompt.description, values),
+      messages: [{
+        role: "user",
+        content: { type: "text", text: renderPrompt(prompt, values) },
+      }],
+    };
+  });
 
-  if (clientCapabilities?.roots) {
+  // Handles dynamic roots updates during runtime, when client sends "roots/list_changed" notification, server fetches the updated roots and replaces all allowed directories with the new roots.
+  server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
     try {
+      // Request the updated roots list from the client
       const response = await server.listRoots();
       if (response && 'roots' in response) {
         await updateAllowedDirectoriesFromRoots(response.roots);
-      } else {
-        console.error("Client returned no roots set, keeping current settings");
       }
     } catch (error) {
-      console.error("Failed to request initial roots from client:", error instanceof Error ? error.message : String(error));
+      console.error("Failed to request roots from client:", error instanceof Error ? error.message : String(error));
     }
-  } else {
-    if (allowedDirectories.length > 0) {
-      console.error("Client does not support MCP Roots, using allowed directories set from server args:", allowedDirectories);
+  });
+
+  // Handles post-initialization setup, specifically checking for and fetching MCP roots.
+  server.oninitialized = async () => {
+    // A new client on an ended channel starts a new feedback session
+    if (channel.terminated) {
+      console.error(`New client on channel ${channel.name}, starting a new feedback session`);
+      channel.terminated = null;
+    }
+
+    const clientCapabilities = server.getClientCapabilities();
+
+    if (clientCapabilities?.roots) {
+      try {
+        const response = await server.listRoots();
+        if (response && 'roots' in response) {
+          await updateAllowedDirectoriesFromRoots(response.roots);
+        } else {
+          console.error("Client returned no roots set, keeping current settings");
+        }
+      } catch (error) {
+        console.error("Failed to request initial roots from client:", error instanceof Error ? error.message : String(error));
+      }
     } else {
-      throw new Error(`Server cannot operate: No allowed directories available. Server was started without command-line directories and client either does not support MCP roots protocol or provided empty roots. Please either: 1) Start server with directory arguments, or 2) Use a client that supports MCP roots protocol and provides valid root directories.`);
+      if (allowedDirectories.length > 0) {
+        console.error("Client does not support MCP Roots, using allowed directories set from server args:", allowedDirectories);
+      } else {
+        throw new Error(`Server cannot operate: No allowed directories available. Server was started without command-line directories and client either does not support MCP roots protocol or provided empty roots. Please either: 1) Start server with directory arguments, or 2) Use a client that supports MCP roots protocol and provides valid root directories.`);
+      }
     }
-  }
-};
+  };
+
+  return server;
+}
 
 // Start server
 async function runServer() {
-  if (useSSE) {
-    await runSSEServer();
+  if (useSSE || useHTTP) {
+    await runHttpServer();
   } else {
     await runStdioServer();
   }
@@ -486,41 +1358,148 @@ async function runServer() {
 
 async function runStdioServer() {
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer(getChannel(DEFAULT_CHANNEL)).connect(transport);
   console.error("TaskSync MCP Server running on stdio");
   console.error(`Allowed directories: ${allowedDirectories.join(', ')}`);
   console.error("Server will initialize components when first tool is called");
 }
 
-async function runSSEServer() {
-  const app = express();
+// Reads ?session=<name>, which gives a client its own feedback channel (feedback.<name>.md).
+// Sends a 400 response and returns null for an invalid name.
+function getRequestChannel(req: express.Request, res: express.Response): FeedbackChannel | null {
+  const sessionName = typeof req.query.session === 'string' ? req.query.session : DEFAULT_CHANNEL;
+  if (!isValidSessionName(sessionName)) {
+    res.status(400).send("Invalid session name: use letters, digits, '-' and '_'");
+    return null;
+  }
+  return getChannel(sessionName);
+}
 
-  // Enable CORS for development
-  app.use((req, res, next) => {
-    res.header('Access-Control-Allow-Origin', '*');
-    res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-    if (req.method === 'OPTIONS') {
-      res.sendStatus(200);
-    } else {
-      next();
+// Lists the tool calls currently blocked waiting for feedback, across all channels
+function listPendingWaits() {
+  const now = Date.now();
+  return [...channels.values()].flatMap(channel => channel.waitingForFileChange.map(waiter => ({
+    session: channel.name,
+    tool: waiter.tool,
+    paths: waiter.paths.map(filePath => path.relative(process.cwd(), filePath) || filePath),
+    startedAt: new Date(waiter.startedAt).toISOString(),
+    elapsedMs: now - waiter.startedAt,
+    timeoutMs: waiter.timeoutMs,
+  })));
+}
+
+// Rejects writes by the server (feedback, status posts, questions) to files that are not feedback files
+function assertFeedbackTarget(validPath: string) {
+  if (!isFeedbackTarget(validPath, channels.values())) {
+    throw new Error(`Access denied - not a feedback file: ${validPath}`);
+  }
+}
+
+// Writes feedback submitted over HTTP to a feedback file, either as a new `---` block or as the
+// whole file, and routes the change right away instead of waiting for the file watcher.
+// Returns the number of waiting calls resolved.
+async function submitFeedback(filePath: string, text: string, mode: SubmitFeedbackBody['mode']): Promise<number> {
+  const validPath = await validatePath(filePath);
+  // The endpoint writes feedback only: never source files, package.json or .tasksync/config.json
+  assertFeedbackTarget(validPath);
+  let content = `${text.trim()}\n`;
+  if (mode === 'append') {
+    const current = await readFileContent(validPath).catch(() => '');
+    if (current.trim()) {
+      content = `${current.trimEnd()}\n\n---\n${content}`;
     }
+  }
+  await writeFileContent(validPath, content);
+  console.error(`Feedback submitted over HTTP to ${validPath} (${mode})`);
+  return notifyClientsOfFileChange(validPath);
+}
+
+// Browser dashboard: pending waits, history and status posts of a session, and a box to send
+// feedback through POST /feedback
+function mountDashboard(app: express.Express) {
+  app.get("/ui", (_, res) => {
+    res.type('html').send(renderDashboardPage());
   });
 
-  app.use(express.json());
+  app.get("/ui/state", async (req, res) => {
+    const sessionName = typeof req.query.session === 'string' ? req.query.session : DEFAULT_CHANNEL;
+    if (!isValidSessionName(sessionName)) {
+      res.status(400).json({ error: "Invalid session name: use letters, digits, '-' and '_'" });
+      return;
+    }
+    // Viewing a session that has not connected yet must not register a channel for it
+    const channel = channels.get(sessionName) ?? createFeedbackChannel(sessionName, process.cwd());
+    try {
+      const statusPath = path.join(path.dirname(channel.feedbackPath), 'status.md');
+      const statusContent = await readFileContent(statusPath).catch(() => '');
+      const feedbackContent = await readFileContent(channel.feedbackPath).catch(() => '');
+      res.json({
+        session: channel.name,
+        feedbackPath: path.relative(process.cwd(), channel.feedbackPath) || channel.feedbackPath,
+        pending: listPendingWaits().filter(wait => wait.session === channel.name),
+        status: [...parseStatusPosts(statusContent), ...parseStatusPosts(feedbackContent)]
+          .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+          .slice(0, 20),
+        history: await readHistory(getHistoryPath(channel.feedbackPath, allowedDirectories), {}),
+      });
+    } catch (error) {
+      res.status(500).json({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+}
+
+// REST API for submitting feedback programmatically and listing the calls waiting for it
+function mountFeedbackApi(app: express.Express) {
+  // Writes feedback to a file (path) or to a session's feedback file (session, default: feedback.md)
+  app.post("/feedback", async (req, res) => {
+    const parsed = SubmitFeedbackBodySchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: `Invalid feedback: ${parsed.error.issues.map(issue => issue.message).join(', ')}` });
+      return;
+    }
+    const sessionName = parsed.data.session ?? DEFAULT_CHANNEL;
+    if (!isValidSessionName(sessionName)) {
+      res.status(400).json({ error: "Invalid session name: use letters, digits, '-' and '_'" });
+      return;
+    }
+    try {
+      // Feedback for a session that has not connected yet must not register a channel for it
+      const targetPath = parsed.data.path ?? (channels.get(sessionName) ?? createFeedbackChannel(sessionName, process.cwd())).feedbackPath;
+      const resolved = await submitFeedback(targetPath, parsed.data.text, parsed.data.mode);
+      res.json({ path: path.relative(process.cwd(), targetPath) || targetPath, resolved });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // validatePath rejects paths outside the allowed directories
+      res.status(message.startsWith('Access denied') ? 403 : 500).json({ error: message });
+    }
+  });
+
+  // Lists the tool calls currently blocked waiting for feedback, optionally for one session
+  app.get("/feedback/pending", (req, res) => {
+    const session = typeof req.query.session === 'string' ? req.query.session : undefined;
+    const pending = listPendingWaits().filter(wait => session === undefined || wait.session === session);
+    res.json({ pending });
+  });
+}
+
+// Legacy HTTP+SSE transport: a GET stream on /sse and client messages posted to /messages
+function mountSSEEndpoints(app: express.Express) {
+  app.get("/sse", async (req, res) => {
+    const channel = getRequestChannel(req, res);
+    if (!channel) return;
 
-  // SSE endpoint
-  app.get("/sse", async (_, res) => {
     const transport = new SSEServerTransport('/messages', res);
     connectedTransports.add(transport);
+    channel.transports.add(transport);
 
     res.on("close", () => {
       connectedTransports.delete(transport);
-      console.error(`Client disconnected. Active connections: ${connectedTransports.size}`);
+      channel.transports.delete(transport);
+      console.error(`Client disconnected from channel ${channel.name}. Active connections: ${connectedTransports.size}`);
     });
 
-    console.error(`Client connected via SSE. Active connections: ${connectedTransports.size}`);
-    await server.connect(transport);
+    console.error(`Client connected via SSE to channel ${channel.name}. Active connections: ${connectedTransports.size}`);
+    await createServer(channel).connect(transport);
   });
 
   // Messages endpoint for POST requests
@@ -529,30 +1508,175 @@ async function runSSEServer() {
     const transport = Array.from(connectedTransports).find(t => t.sessionId === sessionId);
 
     if (transport) {
-      await transport.handlePostMessage(req, res);
+      // express.json() has already consumed the request stream, so pass the parsed body
+      await transport.handlePostMessage(req, res, req.body);
     } else {
       res.status(400).send("No transport found for sessionId");
     }
   });
+}
+
+// Streamable HTTP transport on /mcp. Sessions are identified by the Mcp-Session-Id header and
+// outlive their HTTP connections: a client that reconnects with Last-Event-ID gets the messages it
+// missed from the session's event store, including the result of a get_feedback call that kept
+// waiting while it was disconnected.
+function mountStreamableHttpEndpoint(app: express.Express) {
+  app.post("/mcp", async (req, res) => {
+    const sessionId = req.headers['mcp-session-id'];
+    let transport = typeof sessionId === 'string' ? httpTransports.get(sessionId) : undefined;
+
+    if (!transport) {
+      if (sessionId !== undefined || !isInitializeRequest(req.body)) {
+        res.status(sessionId !== undefined ? 404 : 400).json({
+          jsonrpc: "2.0",
+          error: { code: -32000, message: sessionId !== undefined ? "Session not found" : "Bad Request: No valid session ID provided" },
+          id: null,
+        });
+        return;
+      }
+
+      const channel = getRequestChannel(req, res);
+      if (!channel) return;
+
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        eventStore: createEventStore(),
+        onsessioninitialized: id => {
+          httpTransports.set(id, newTransport);
+          channel.transports.add(newTransport);
+          console.error(`Client connected via Streamable HTTP to channel ${channel.name}. Active sessions: ${httpTransports.size}`);
+        },
+      });
+      newTransport.onclose = () => {
+        if (newTransport.sessionId) httpTransports.delete(newTransport.sessionId);
+        channel.transports.delete(newTransport);
+        console.error(`Streamable HTTP session closed in channel ${channel.name}. Active sessions: ${httpTransports.size}`);
+      };
+      await createServer(channel).connect(newTransport);
+      transport = newTransport;
+    }
+
+    // express.json() has already consumed the request stream, so pass the parsed body
+    await transport.handleRequest(req, res, req.body);
+  });
+
+  // GET opens (or, with Last-Event-ID, resumes) a server-to-client stream; DELETE ends the session
+  const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+    const sessionId = req.headers['mcp-session-id'];
+    const transport = typeof sessionId === 'string' ? httpTransports.get(sessionId) : undefined;
+    if (!transport) {
+      res.status(sessionId !== undefined ? 404 : 400).send(sessionId !== undefined ? "Session not found" : "Missing Mcp-Session-Id header");
+      return;
+    }
+    await transport.handleRequest(req, res);
+  };
+  app.get("/mcp", handleSessionRequest);
+  app.delete("/mcp", handleSessionRequest);
+}
+
+async function runHttpServer() {
+  const app = express();
+
+  // Host allowlist: a page on another domain that resolves to this machine (DNS rebinding) sends
+  // its own name as Host, so it cannot reach the server even though the browser considers it same-origin
+  app.use((req, res, next) => {
+    if (isHostAllowed(req.headers.host, allowedHosts)) {
+      next();
+      return;
+    }
+    console.error(`Rejected ${req.method} ${req.path} for host ${req.headers.host ?? '(none)'}`);
+    res.status(403).json({ error: "Host not allowed" });
+  });
+
+  // CORS: only origins from --cors-origin may call the server from a browser
+  app.use((req, res, next) => {
+    const origin = req.headers.origin;
+    res.header('Vary', 'Origin');
+    if (isOriginAllowed(origin, allowedOrigins)) {
+      res.header('Access-Control-Allow-Origin', origin);
+      res.header('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID');
+      res.header('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+    }
+    if (req.method === 'OPTIONS') {
+      res.sendStatus(origin && !isOriginAllowed(origin, allowedOrigins) ? 403 : 204);
+    } else {
+      next();
+    }
+  });
+
+  // Bearer token authentication on every endpoint when a token is configured. The dashboard
+  // page holds no data and sends the token itself, so it is served without one.
+  app.use((req, res, next) => {
+    const isDashboardPage = req.method === 'GET' && req.path === '/ui';
+    if (authToken === null || isDashboardPage || isAuthorized(req.headers.authorization, authToken)) {
+      next();
+      return;
+    }
+    console.error(`Rejected unauthenticated ${req.method} ${req.path} from ${req.ip}`);
+    res.header('WWW-Authenticate', 'Bearer realm="tasksync"');
+    res.status(401).json({ error: "Unauthorized" });
+  });
+
+  app.use(express.json());
+
+  // The legacy SSE endpoints stay available in --http mode for older clients
+  mountSSEEndpoints(app);
+  if (useHTTP) {
+    mountStreamableHttpEndpoint(app);
+  }
+  mountFeedbackApi(app);
+  mountDashboard(app);
 
   // Health check endpoint
   app.get("/health", (_, res) => {
+    const lastFeedbackAt = Math.max(0, ...[...channels.values()].flatMap(channel => [...channel.lastDeliveredAtByPath.values()]));
     res.json({
       status: "ok",
       server: "tasksync-mcp",
       version: "1.0.0",
-      connections: connectedTransports.size,
+      uptimeSeconds: Math.round((Date.now() - serverStartedAt) / 1000),
+      connections: connectedTransports.size + httpTransports.size,
+      channels: [...channels.values()].map(channel => ({
+        name: channel.name,
+        connections: channel.transports.size,
+        pendingWaits: channel.waitingForFileChange.length,
+        terminated: channel.terminated !== null,
+      })),
+      watchedFiles: [...fileWatchers.keys()].map(filePath => path.relative(process.cwd(), filePath) || filePath),
+      lastFeedbackAt: lastFeedbackAt > 0 ? new Date(lastFeedbackAt).toISOString() : null,
+      secondsSinceLastFeedback: lastFeedbackAt > 0 ? Math.round((Date.now() - lastFeedbackAt) / 1000) : null,
       allowedDirectories: allowedDirectories.length
     });
   });
 
+  // Prometheus metrics
+  app.get("/metrics", (_, res) => {
+    const text = renderPrometheus(metrics, {
+      activeWaits: [...channels.values()].reduce((total, channel) => total + channel.waitingForFileChange.length, 0),
+      watchedFiles: fileWatchers.size,
+      connections: connectedTransports.size + httpTransports.size,
+    });
+    res.type('text/plain; version=0.0.4').send(text);
+  });
+
   // Setup file watcher for default review file
-  await setupFileWatcher(path.join(process.cwd(), 'feedback.md'), true);
+  await ensureInitialized(getChannel(DEFAULT_CHANNEL));
 
-  app.listen(ssePort, () => {
-    console.error(`TaskSync MCP Server running on SSE at http://localhost:${ssePort}`);
-    console.error(`SSE endpoint: http://localhost:${ssePort}/sse`);
-    console.error(`Health check: http://localhost:${ssePort}/health`);
+  if (authToken === null) {
+    console.error(`Warning: authentication is disabled. Set ${AUTH_TOKEN_ENV} or --token-file to require a bearer token. Only requests for ${allowedHosts.join(', ')} are accepted.`);
+  }
+
+  app.listen(ssePort, httpHost, () => {
+    const baseUrl = `http://${httpHost.includes(':') ? `[${httpHost}]` : httpHost}:${ssePort}`;
+    console.error(`TaskSync MCP Server running at ${baseUrl}`);
+    if (useHTTP) {
+      console.error(`Streamable HTTP endpoint: ${baseUrl}/mcp`);
+    }
+    console.error(`SSE endpoint: ${baseUrl}/sse`);
+    console.error(`Health check: ${baseUrl}/health`);
+    console.error(`Metrics: ${baseUrl}/metrics`);
+    console.error(`Dashboard: ${baseUrl}/ui`);
     console.error(`Allowed directories: ${allowedDirectories.join(', ')}`);
     console.error(`File watcher active for: feedback.md`);
   });
@@ -1,6 +1,6 @@
 import fs from "fs/promises";
 import path from "path";
-import { randomBytes } from 'crypto';
+import { randomBytes, createHash } from 'crypto';
 import { createTwoFilesPatch } from 'diff';
 import { minimatch } from 'minimatch';
 import { normalizePath, expandHome } from './path-utils.js';
@@ -41,6 +41,10 @@ export function normalizeLineEndings(text: string): string {
   return text.replace(/\r\n/g, '\n');
 }
 
+export function hashContent(content: string): string {
+  return createHash('sha256').update(normalizeLineEndings(content)).digest('hex');
+}
+
 export function createUnifiedDiff(originalContent: string, newContent: string, filepath: string = 'file'): string {
   // Ensure consistent line endings for diff
   const normalizedOriginal = normalizeLineEndings(originalContent);
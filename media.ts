@@ -0,0 +1,158 @@
+import { execFile } from "child_process";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+export type MediaKind = 'image' | 'audio' | 'video' | 'pdf';
+
+export interface MediaType {
+  kind: MediaKind;
+  mimeType: string;
+}
+
+export interface MediaRange {
+  // 1-based, inclusive
+  first: number;
+  last: number;
+}
+
+export interface ExtractedImage {
+  // 1-based page or keyframe number
+  index: number;
+  data: Buffer;
+}
+
+// Upper bound on the pages or frames returned by one view_media call
+export const MAX_EXTRACTED_IMAGES = 20;
+// Pages or frames returned when the call does not select a range
+export const DEFAULT_EXTRACTED_IMAGES = 5;
+export const PDF_RENDER_DPI = 100;
+const EXTRACT_TIMEOUT_MS = 60_000;
+
+const MEDIA_TYPES: Record<string, MediaType> = {
+  ".png": { kind: 'image', mimeType: "image/png" },
+  ".jpg": { kind: 'image', mimeType: "image/jpeg" },
+  ".jpeg": { kind: 'image', mimeType: "image/jpeg" },
+  ".gif": { kind: 'image', mimeType: "image/gif" },
+  ".webp": { kind: 'image', mimeType: "image/webp" },
+  ".bmp": { kind: 'image', mimeType: "image/bmp" },
+  ".svg": { kind: 'image', mimeType: "image/svg+xml" },
+  ".mp3": { kind: 'audio', mimeType: "audio/mpeg" },
+  ".wav": { kind: 'audio', mimeType: "audio/wav" },
+  ".ogg": { kind: 'audio', mimeType: "audio/ogg" },
+  ".m4a": { kind: 'audio', mimeType: "audio/mp4" },
+  ".flac": { kind: 'audio', mimeType: "audio/flac" },
+  ".mp4": { kind: 'video', mimeType: "video/mp4" },
+  ".mov": { kind: 'video', mimeType: "video/quicktime" },
+  ".webm": { kind: 'video', mimeType: "video/webm" },
+  ".mkv": { kind: 'video', mimeType: "video/x-matroska" },
+  ".avi": { kind: 'video', mimeType: "video/x-msvideo" },
+  ".pdf": { kind: 'pdf', mimeType: "application/pdf" },
+};
+
+/**
+ * Looks up the media type of a file by its extension.
+ * @param filePath - Path of the media file
+ * @returns Kind and MIME type, or null for unsupported extensions
+ */
+export function getMediaType(filePath: string): MediaType | null {
+  return MEDIA_TYPES[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+/**
+ * Parses a page or frame range such as `3`, `2-5` or `4-`. An open range selects
+ * DEFAULT_EXTRACTED_IMAGES items from its start.
+ * @param spec - Range text, 1-based and inclusive; undefined selects the first pages or frames
+ * @returns The selected range
+ * @throws Error if the range is malformed or selects more than MAX_EXTRACTED_IMAGES items
+ */
+export function parseMediaRange(spec: string | undefined): MediaRange {
+  if (spec === undefined) return { first: 1, last: DEFAULT_EXTRACTED_IMAGES };
+
+  const match = /^\s*(\d+)\s*(?:(-)\s*(\d+)?)?\s*$/.exec(spec);
+  if (!match) {
+    throw new Error(`Invalid range "${spec}": use a number ("3") or a range ("2-5", "4-")`);
+  }
+  const first = Number(match[1]);
+  const last = match[3] !== undefined ? Number(match[3]) : match[2] ? first + DEFAULT_EXTRACTED_IMAGES - 1 : first;
+  if (first < 1 || last < first) {
+    throw new Error(`Invalid range "${spec}": numbers start at 1 and the end may not come before the start`);
+  }
+  if (last - first + 1 > MAX_EXTRACTED_IMAGES) {
+    throw new Error(`Range "${spec}" selects ${last - first + 1} items; at most ${MAX_EXTRACTED_IMAGES} can be returned per call`);
+  }
+  return { first, last };
+}
+
+// Runs an external converter, turning a missing binary into an install hint
+async function runConverter(command: string, args: string[], installHint: string): Promise<void> {
+  try {
+    await execFileAsync(command, args, { timeout: EXTRACT_TIMEOUT_MS, maxBuffer: 1024 * 1024 });
+  } catch (error) {
+    const err = error as NodeJS.ErrnoException & { stderr?: string };
+    if (err.code === 'ENOENT') {
+      throw new Error(`${command} is not installed: ${installHint}`);
+    }
+    const details = err.stderr?.trim().split('\n').pop() || err.message;
+    throw new Error(`${command} failed: ${details}`);
+  }
+}
+
+// Runs a converter in a temporary directory and reads back the numbered PNGs it wrote, in order
+async function extractToPngs(write: (outputDir: string) => Promise<void>, first: number): Promise<ExtractedImage[]> {
+  const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tasksync-media-'));
+  try {
+    await write(outputDir);
+    const files = (await fs.readdir(outputDir)).filter(name => name.endsWith('.png'));
+    // Output names are zero-padded by pdftoppm only as far as the page count needs, so sort numerically
+    const numberOf = (name: string) => Number(/(\d+)\.png$/.exec(name)?.[1] ?? 0);
+    files.sort((a, b) => numberOf(a) - numberOf(b));
+    return Promise.all(files.map(async (name, i) => ({
+      index: first + i,
+      data: await fs.readFile(path.join(outputDir, name)),
+    })));
+  } finally {
+    await fs.rm(outputDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Renders pages of a PDF to PNG with `pdftoppm` (poppler-utils).
+ * @param filePath - Validated path of the PDF
+ * @param range - Pages to render; pages past the end of the document are skipped
+ * @returns One PNG per rendered page
+ * @throws Error if pdftoppm is missing or fails, or the range starts past the last page
+ */
+export async function renderPdfPages(filePath: string, range: MediaRange): Promise<ExtractedImage[]> {
+  return extractToPngs(outputDir => runConverter(
+    'pdftoppm',
+    ['-png', '-r', String(PDF_RENDER_DPI), '-f', String(range.first), '-l', String(range.last), filePath, path.join(outputDir, 'page')],
+    'install poppler-utils to view PDFs',
+  ), range.first);
+}
+
+/**
+ * Extracts keyframes of a video or animated GIF to PNG thumbnails with `ffmpeg`.
+ * Only keyframes are decoded, so the numbering counts keyframes, not every frame of the video.
+ * @param filePath - Validated path of the video or GIF
+ * @param range - Keyframes to extract
+ * @returns One PNG per extracted keyframe
+ * @throws Error if ffmpeg is missing or fails
+ */
+export async function extractKeyframes(filePath: string, range: MediaRange): Promise<ExtractedImage[]> {
+  return extractToPngs(outputDir => runConverter(
+    'ffmpeg',
+    [
+      '-nostdin', '-loglevel', 'error',
+      '-skip_frame', 'nokey', '-i', filePath,
+      '-vf', `select='between(n\\,${range.first - 1}\\,${range.last - 1})'`,
+      '-vsync', 'vfr',
+      '-frames:v', String(range.last - range.first + 1),
+      path.join(outputDir, 'frame-%03d.png'),
+    ],
+    'install ffmpeg to view videos and GIF frames',
+  ), range.first);
+}
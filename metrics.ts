@@ -0,0 +1,146 @@
+// Upper bounds, in seconds, of the wait-duration histogram buckets
+export const WAIT_DURATION_BUCKETS = [1, 5, 15, 30, 60, 120, 300, 600, 1800];
+
+export type WaitOutcome = 'changed' | 'timeout' | 'cancelled';
+
+interface Histogram {
+  // Cumulative count per bucket of WAIT_DURATION_BUCKETS
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export interface MetricsRegistry {
+  toolCalls: Map<string, number>;
+  deliveries: Map<string, number>;
+  waitDurations: Map<WaitOutcome, Histogram>;
+  timeouts: number;
+  watcherErrors: number;
+}
+
+// Values read from the server state when the metrics are rendered
+export interface MetricsSnapshot {
+  activeWaits: number;
+  watchedFiles: number;
+  connections: number;
+}
+
+/**
+ * Creates an empty metrics registry.
+ * @returns New registry
+ */
+export function createMetricsRegistry(): MetricsRegistry {
+  return {
+    toolCalls: new Map(),
+    deliveries: new Map(),
+    waitDurations: new Map(),
+    timeouts: 0,
+    watcherErrors: 0,
+  };
+}
+
+function increment(counter: Map<string, number>, key: string): void {
+  counter.set(key, (counter.get(key) ?? 0) + 1);
+}
+
+/**
+ * Counts a tool call.
+ * @param registry - Metrics registry
+ * @param tool - Tool name
+ */
+export function recordToolCall(registry: MetricsRegistry, tool: string): void {
+  increment(registry.toolCalls, tool);
+}
+
+/**
+ * Counts feedback delivered to an agent.
+ * @param registry - Metrics registry
+ * @param filePath - Feedback file the content came from
+ */
+export function recordDelivery(registry: MetricsRegistry, filePath: string): void {
+  increment(registry.deliveries, filePath);
+}
+
+/**
+ * Counts an error reported by a file watcher.
+ * @param registry - Metrics registry
+ */
+export function recordWatcherError(registry: MetricsRegistry): void {
+  registry.watcherErrors++;
+}
+
+/**
+ * Records how long a call waited for feedback and how the wait ended.
+ * @param registry - Metrics registry
+ * @param outcome - Whether the file changed, the wait timed out or the client cancelled it
+ * @param durationMs - Time spent waiting
+ */
+export function recordWait(registry: MetricsRegistry, outcome: WaitOutcome, durationMs: number): void {
+  let histogram = registry.waitDurations.get(outcome);
+  if (!histogram) {
+    histogram = { buckets: WAIT_DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 };
+    registry.waitDurations.set(outcome, histogram);
+  }
+  const seconds = durationMs / 1000;
+  WAIT_DURATION_BUCKETS.forEach((bound, i) => {
+    if (seconds <= bound) histogram.buckets[i]++;
+  });
+  histogram.sum += seconds;
+  histogram.count++;
+  if (outcome === 'timeout') registry.timeouts++;
+}
+
+/**
+ * Escapes a Prometheus label value.
+ * @param value - Raw label value
+ * @returns Value safe to put between double quotes
+ */
+export function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Renders the registry and a snapshot of the server state in the Prometheus text exposition format.
+ * @param registry - Metrics registry
+ * @param snapshot - Current values of the gauges
+ * @returns Metrics text, served with content type `text/plain; version=0.0.4`
+ */
+export function renderPrometheus(registry: MetricsRegistry, snapshot: MetricsSnapshot): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string, samples: string[]) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...samples);
+  };
+  const labelled = (name: string, label: string, counter: Map<string, number>) =>
+    [...counter.entries()].map(([key, value]) => `${name}{${label}="${escapeLabelValue(key)}"} ${value}`);
+
+  metric('tasksync_active_waits', 'gauge', 'Tool calls currently waiting for feedback',
+    [`tasksync_active_waits ${snapshot.activeWaits}`]);
+  metric('tasksync_watched_files', 'gauge', 'Feedback files with an active watcher',
+    [`tasksync_watched_files ${snapshot.watchedFiles}`]);
+  metric('tasksync_connections', 'gauge', 'Connected MCP clients',
+    [`tasksync_connections ${snapshot.connections}`]);
+
+  const waitSamples: string[] = [];
+  for (const [outcome, histogram] of registry.waitDurations) {
+    WAIT_DURATION_BUCKETS.forEach((bound, i) => {
+      waitSamples.push(`tasksync_wait_duration_seconds_bucket{outcome="${outcome}",le="${bound}"} ${histogram.buckets[i]}`);
+    });
+    waitSamples.push(
+      `tasksync_wait_duration_seconds_bucket{outcome="${outcome}",le="+Inf"} ${histogram.count}`,
+      `tasksync_wait_duration_seconds_sum{outcome="${outcome}"} ${histogram.sum}`,
+      `tasksync_wait_duration_seconds_count{outcome="${outcome}"} ${histogram.count}`,
+    );
+  }
+  metric('tasksync_wait_duration_seconds', 'histogram', 'Time tool calls spent waiting for feedback, by outcome', waitSamples);
+
+  metric('tasksync_timeouts_total', 'counter', 'Waits that ended without feedback before the timeout',
+    [`tasksync_timeouts_total ${registry.timeouts}`]);
+  metric('tasksync_deliveries_total', 'counter', 'Feedback deliveries to agents, by feedback file',
+    labelled('tasksync_deliveries_total', 'path', registry.deliveries));
+  metric('tasksync_watcher_errors_total', 'counter', 'Errors reported by file watchers',
+    [`tasksync_watcher_errors_total ${registry.watcherErrors}`]);
+  metric('tasksync_tool_calls_total', 'counter', 'Tool calls, by tool',
+    labelled('tasksync_tool_calls_total', 'tool', registry.toolCalls));
+
+  return lines.join('\n') + '\n';
+}
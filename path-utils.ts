@@ -45,3 +45,18 @@ export function normalizePath(p: string): string {
 export function expandHome(filepath: string): string {
   return (filepath.startsWith('~/') || filepath === '~') ? path.join(os.homedir(), filepath.slice(1)) : filepath;
 }
+
+/**
+ * Splits a glob into its literal base directory and the pattern relative to it
+ * @param p The path or glob to split
+ * @returns Base directory and relative pattern (empty when p contains no glob characters)
+ */
+export function splitGlobPattern(p: string): { base: string; pattern: string } {
+  const segments = p.replace(/\\/g, '/').split('/');
+  const firstGlob = segments.findIndex(segment => /[*?[\]{}]/.test(segment));
+  if (firstGlob === -1) return { base: p, pattern: '' };
+
+  const baseSegments = segments.slice(0, firstGlob);
+  const base = baseSegments.length === 0 ? '.' : baseSegments.length === 1 && baseSegments[0] === '' ? '/' : baseSegments.join('/');
+  return { base, pattern: segments.slice(firstGlob).join('/') };
+}
@@ -0,0 +1,120 @@
+import fs from "fs/promises";
+import { z } from "zod";
+import { DEFAULT_TERMINATION_KEYWORDS } from './feedback-format.js';
+
+export const CONFIG_FILE = 'config.json';
+
+// Tools served by TaskSync, without the configured prefix
+export const TOOL_NAMES = ['get_feedback', 'get_feedback_history', 'post_status', 'ask_user', 'view_media', 'compare_media'] as const;
+export type ToolName = typeof TOOL_NAMES[number];
+
+export interface ServerConfig {
+  // Prepended to every tool name, e.g. "tasksync_" serves tasksync_get_feedback
+  toolPrefix: string;
+  // Replacement descriptions by tool name; may use the same placeholders as prompts
+  descriptions: Partial<Record<ToolName, string>>;
+  // Messages that end the feedback loop
+  terminationKeywords: string[];
+  // Images referenced in delivered feedback (![alt](path)) that get_feedback attaches
+  feedbackImages: {
+    // 0 disables attaching images
+    maxCount: number;
+    // Larger images are downscaled until they fit
+    maxBytes: number;
+  };
+}
+
+export const DEFAULT_SERVER_CONFIG: ServerConfig = {
+  toolPrefix: '',
+  descriptions: {},
+  terminationKeywords: DEFAULT_TERMINATION_KEYWORDS,
+  feedbackImages: {
+    maxCount: 5,
+    maxBytes: 1024 * 1024,
+  },
+};
+
+const ServerConfigSchema = z.object({
+  // MCP tool names are limited to 64 letters, digits, '-' and '_'
+  toolPrefix: z.string().regex(/^[A-Za-z0-9_-]{0,40}$/, "toolPrefix may only use letters, digits, '-' and '_' (at most 40)").default(''),
+  descriptions: z.record(z.enum(TOOL_NAMES), z.string().min(1)).default({}),
+  terminationKeywords: z.array(z.string().trim().min(1)).min(1).default(DEFAULT_TERMINATION_KEYWORDS),
+  feedbackImages: z.object({
+    maxCount: z.number().int().min(0).max(20).default(DEFAULT_SERVER_CONFIG.feedbackImages.maxCount),
+    maxBytes: z.number().int().positive().default(DEFAULT_SERVER_CONFIG.feedbackImages.maxBytes),
+  }).strict().default(DEFAULT_SERVER_CONFIG.feedbackImages),
+}).strict();
+
+/**
+ * Loads the server configuration (tool name prefix, tool descriptions, termination keywords,
+ * limits on images attached to feedback).
+ * @param configFile - Path of the config file (`.tasksync/config.json` or --config), already validated
+ * @returns The configuration, with defaults for missing settings or a missing file
+ * @throws Error if the config file exists but is not valid
+ */
+export async function loadServerConfig(configFile: string): Promise<ServerConfig> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(configFile, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return DEFAULT_SERVER_CONFIG;
+    throw error;
+  }
+
+  let parsed;
+  try {
+    parsed = ServerConfigSchema.safeParse(JSON.parse(raw));
+  } catch (error) {
+    throw new Error(`Invalid config file ${configFile}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed.success) {
+    throw new Error(`Invalid config file ${configFile}: ${parsed.error.issues.map(issue => `${issue.path.join('.') || 'config'}: ${issue.message}`).join(', ')}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Maps a requested tool name back to the TaskSync tool it refers to.
+ * @param requestedName - Tool name sent by the client
+ * @param config - Server configuration
+ * @returns Unprefixed tool name, or null if no tool is served under that name
+ */
+export function resolveToolName(requestedName: string, config: ServerConfig): ToolName | null {
+  if (!requestedName.startsWith(config.toolPrefix)) return null;
+  const name = requestedName.slice(config.toolPrefix.length);
+  return (TOOL_NAMES as readonly string[]).includes(name) ? name as ToolName : null;
+}
+
+/**
+ * Formats termination keywords for instructions to the agent.
+ * @param keywords - Termination keywords
+ * @returns Quoted keywords, e.g. `"end", "stop" or "finished"`
+ */
+export function formatKeywordList(keywords: string[]): string {
+  const quoted = keywords.map(keyword => `"${keyword}"`);
+  return quoted.length > 1 ? `${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}` : quoted.join('');
+}
+
+/**
+ * Returns the placeholder values available in tool descriptions and prompts:
+ * `{{terminationKeywords}}` and the served name of every tool (e.g. `{{get_feedback}}`).
+ * @param config - Server configuration
+ * @returns Placeholder values by name
+ */
+export function getPlaceholderValues(config: ServerConfig): Record<string, string> {
+  const values: Record<string, string> = { terminationKeywords: formatKeywordList(config.terminationKeywords) };
+  for (const name of TOOL_NAMES) {
+    values[name] = config.toolPrefix + name;
+  }
+  return values;
+}
+
+/**
+ * Replaces `{{name}}` placeholders in a text.
+ * @param text - Text with placeholders
+ * @param values - Placeholder values by name
+ * @returns Text with every known placeholder replaced; unknown placeholders are left untouched
+ */
+export function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
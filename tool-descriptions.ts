@@ -0,0 +1,110 @@
+import {
+  TOOL_NAMES,
+  fillPlaceholders,
+  getPlaceholderValues,
+  type ServerConfig,
+  type ToolName,
+} from './server-config.js';
+
+// Built-in tool descriptions. {{terminationKeywords}} and {{<tool name>}} are filled in from the config.
+export const DEFAULT_TOOL_DESCRIPTIONS: Record<ToolName, string> = {
+  get_feedback:
+    "Read the contents of a feedback.md file (defaults to ./feedback.md). Before calling this tool you must seearch for the feedback.md file." +
+    "If the feedback file does not exist, you will automatically create an empty feedback.md file before attempting to use this tool. " +
+    "During any process, task, or conversation, whether asking, replying, or completing phased tasks, you must call this tool to check for review. " +
+    "Only when the user explicitly indicates {{terminationKeywords}} can you stop calling this tool, and the process is considered complete.\n\n" +
+    "MANDATORY USAGE RULES -PRIMARY DIRECTIVE:\n" +
+    "1. CONTINUOUS FEEDBACK LOOP: During any process, task, or conversation, whether asking, replying, or completing phased tasks, you MUST call this tool to check for feedback.\n" +
+    "2. NO STOPPING WITHOUT PERMISSION: Unless receiving explicit termination instructions ({{terminationKeywords}}), ALL steps must repeatedly call this tool.\n" +
+    "3. RESPOND TO FEEDBACK: Whenever user feedback is received, if the feedback content is not empty, you MUST call this tool again and adjust behavior based on the feedback content.\n" +
+    "4. TERMINATION CONDITIONS: Only when the user explicitly indicates {{terminationKeywords}} can you stop calling this tool.\n" +
+    "5. PROVIDE CONTEXT: You should summarize what you have done and provide project context to help the user provide meaningful feedback for the next step. Use the {{post_status}} tool so the summary is written where the user reads feedback.\n" +
+    "6. KEEP ITERATING: If the user provides feedback, suggestions, or asks questions, continue the feedback loop by calling this tool again after addressing their input.\n" +
+    "7. NEVER ASSUME COMPLETION: Do not assume a task is complete without explicit user confirmation through this feedback mechanism.\n\n" +
+    "RESULT FORMAT:\n" +
+    "The first content block is the raw feedback text (with mode \"delta\", only the text appended since your last call, or a unified diff of edits). The second is JSON with the optional front-matter (priority, targets, status) " +
+    "and the `---`-separated message blocks, each classified as instruction, comment or stop and flagged isNew when it was not delivered by a previous call. " +
+    "Act on the new instruction blocks.\n" +
+    "Local images referenced by new message blocks with markdown image syntax (![alt](./screenshots/bug.png), relative to the feedback file) " +
+    "are attached as image blocks after the JSON, so you do not need {{view_media}} for them; images that could not be attached are listed under skippedImages.\n" +
+    "If no feedback arrives before the timeout (timeoutMs, or the server default), the server may return a result with status \"no_feedback\" " +
+    "instead of an error. That is not a failure: call {{get_feedback}} again to keep waiting.\n" +
+    "When the user ends the session with {{terminationKeywords}}, the result has \"terminate\": true and the server refuses further waits: " +
+    "stop calling this tool, the task is complete.",
+
+  get_feedback_history:
+    "List feedback previously delivered by {{get_feedback}}, newest first. " +
+    "Every delivery is logged to .tasksync/history.jsonl in the allowed directory with its timestamp, path, content hash and session id.\n\n" +
+    "Args:\n" +
+    "    path: Only return deliveries of this feedback file\n" +
+    "    sessionId: Only return deliveries made to this session\n" +
+    "    since: Only return deliveries at or after this ISO 8601 timestamp\n" +
+    "    offset, limit: Paging (default limit 20)",
+
+  post_status:
+    "Post a progress report for the user. Appends a timestamped agent section to status.md next to the feedback file " +
+    "(or, with target \"feedback\", to the feedback file itself) so the user can read a running log in their editor and reply under it. " +
+    "Posting does not trigger your own {{get_feedback}} wait. Use this instead of summarizing only in chat before calling {{get_feedback}}.\n\n" +
+    "Args:\n" +
+    "    message: What you did, what you are doing next, and any open questions\n" +
+    "    path: Feedback file the status belongs to (defaults to ./feedback.md)\n" +
+    "    target: status_file (default) or feedback",
+
+  ask_user:
+    "Ask the user a multiple-choice question and block until they answer. " +
+    "The question is written to the feedback file as a markdown checkbox list; the call returns as soon as the user ticks one box " +
+    "(- [x]) and saves. Prefer this over free-text feedback for yes/no questions or choosing between a few options.\n\n" +
+    "Args:\n" +
+    "    question: Question to ask\n" +
+    "    options: At least two options\n" +
+    "    path: Feedback file to write the question to (defaults to ./feedback.md)",
+
+  view_media:
+    "Read an image, audio, video or PDF file. Images and audio are returned base64 encoded with their MIME type, large images downscaled; " +
+    "PDF pages and video keyframes are rendered to PNG images. " +
+    "Only works within allowed directories.\n\n" +
+    "SUPPORTED FORMATS:\n" +
+    "Images: PNG, JPEG, GIF, WebP, BMP, SVG\n" +
+    "Audio: MP3, WAV, OGG, M4A, FLAC\n" +
+    "Video: MP4, MOV, WebM, MKV, AVI (keyframes, needs ffmpeg on the server)\n" +
+    "Documents: PDF (pages, needs pdftoppm from poppler-utils on the server)\n\n" +
+    "USAGE:\n" +
+    "Use this tool to look at screenshots, screen recordings or design PDFs the user dropped into the workspace. " +
+    "Large documents and videos are returned a few pages or keyframes at a time: select more with pages or frames.\n\n" +
+    "Args:\n" +
+    "    path: Absolute or relative path to the media file within allowed directories\n" +
+    "    pages: PDF pages to render, e.g. \"3\", \"2-5\" or \"4-\" (default: the first 5, at most 20 per call)\n" +
+    "    frames: Video or GIF keyframes to extract, same syntax (GIFs are returned as is unless frames is set)\n" +
+    "    maxWidth, maxHeight: Downscale larger images to fit (default 2048x2048); the result reports the original dimensions\n" +
+    "    maxBytes: Re-encode and shrink images until each is at most this many bytes (default 1048576)\n" +
+    "    crop: {x, y, width, height} region of the image to return, in pixels\n" +
+    "    grid: {columns, rows} splits the image into tiles labelled A1 (top-left), B1, ...; without tile the image is returned with the grid drawn over it\n" +
+    "    tile: With grid, return only this tile at full resolution, e.g. \"B2\"\n\n" +
+    "Images come with a text block giving the format, dimensions and EXIF orientation. " +
+    "For a big screenshot, look at the grid overview first, then ask for the tile you need.",
+
+  compare_media:
+    "Compare a before and an after image pixel by pixel, for example two screenshots of the same screen around a UI change. " +
+    "Returns the percentage of pixels changed, bounding boxes of the changed regions (largest first) and a diff image: " +
+    "the after image faded, with changed pixels in red and changed regions boxed. Only works within allowed directories.\n\n" +
+    "Args:\n" +
+    "    before: Path to the before image\n" +
+    "    after: Path to the after image\n" +
+    "    threshold: Largest per-channel color difference (0-1) still counted as unchanged (default 0.1)\n\n" +
+    "Use {{view_media}} with crop to look at a changed region at full resolution.",
+};
+
+/**
+ * Builds the description of every tool: the configured description if any, else the built-in one,
+ * with placeholders filled in.
+ * @param config - Server configuration
+ * @returns Descriptions by unprefixed tool name
+ */
+export function getToolDescriptions(config: ServerConfig): Record<ToolName, string> {
+  const values = getPlaceholderValues(config);
+  const descriptions = {} as Record<ToolName, string>;
+  for (const name of TOOL_NAMES) {
+    descriptions[name] = fillPlaceholders(config.descriptions[name] ?? DEFAULT_TOOL_DESCRIPTIONS[name], values);
+  }
+  return descriptions;
+}